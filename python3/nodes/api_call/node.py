@@ -0,0 +1,34 @@
+"""
+Python counterpart of @nanoservice-ts/api-call, used by workflows/json/countries-py.json.
+
+Inputs: url, method (GET by default), headers, body (the previous step's response when missing).
+"""
+
+import json
+import urllib.error
+import urllib.request
+
+
+class HttpError(Exception):
+    def __init__(self, code, message):
+        super().__init__(message)
+        self.code = code
+
+
+def handle(ctx, inputs):
+    method = (inputs.get("method") or "GET").upper()
+    body = inputs.get("body", (ctx.get("response") or {}).get("data"))
+
+    data = None
+    if method != "GET" and body is not None:
+        data = body.encode("utf-8") if isinstance(body, str) else json.dumps(body).encode("utf-8")
+
+    request = urllib.request.Request(inputs["url"], data=data, method=method, headers=inputs.get("headers") or {})
+    try:
+        with urllib.request.urlopen(request, timeout=30) as response:
+            payload = response.read().decode("utf-8")
+            if "application/json" in (response.headers.get("Content-Type") or ""):
+                return json.loads(payload)
+            return payload
+    except urllib.error.HTTPError as error:
+        raise HttpError(500, f"{error.code} {error.reason}") from error
@@ -0,0 +1,98 @@
+#!/usr/bin/env ts-node
+
+import { createChecks, startServer } from './check-server';
+
+/**
+ * Admin API Check
+ *
+ * Reads /nodes and /workflows from a test server and checks that:
+ *
+ * - the routes need an ADMIN_API_KEYS key
+ * - workflows are described with their routing and the auth type, never their auth settings
+ *   (jwt_secret, secrets and keys) or the headers sent by their schedule
+ * - unknown workflows get a 404
+ *
+ * Usage: npm test, or npm run check:admin
+ */
+
+const ADMIN_KEY = 'admin-key';
+const SECRETS = ['inline-jwt-secret', 'schedule-token'];
+
+function workflow(trigger: Record<string, unknown>) {
+  return {
+    name: 'Described',
+    version: '1.0.0',
+    description: 'Fixture for the admin check',
+    trigger,
+    steps: [{ name: 'echo', node: 'mapper', type: 'module' }],
+    nodes: { echo: { inputs: { model: {} } } },
+  };
+}
+
+const FIXTURES = {
+  'json/legacy.json': workflow({
+    http: { method: 'GET', path: '/', accept: 'application/json', jwt_secret: SECRETS[0] },
+  }),
+  'json/keyed.json': workflow({
+    http: { method: 'POST', path: '/:id', accept: 'application/json', auth: { type: 'api_key', header: 'x-key' } },
+  }),
+  'json/nightly.json': workflow({
+    schedule: { cron: '0 3 * * *', headers: { authorization: `Bearer ${SECRETS[1]}` } },
+  }),
+};
+
+async function get(url: string, key?: string) {
+  const response = await fetch(url, { headers: key ? { authorization: `Bearer ${key}` } : {} });
+  const text = await response.text();
+  return { status: response.status, challenge: response.headers.get('www-authenticate'), text };
+}
+
+async function main() {
+  const { url } = await startServer(FIXTURES, { ADMIN_ENABLED: 'true', ADMIN_API_KEYS: ADMIN_KEY });
+  const { check, done } = createChecks('admin');
+
+  const anonymous = await get(`${url}/workflows`);
+  check('workflows need a key', anonymous.status === 401 && anonymous.challenge !== null, anonymous.status);
+  const wrongKey = await get(`${url}/nodes`, 'not-the-admin-key');
+  check('nodes reject another key', wrongKey.status === 401, wrongKey.status);
+
+  const nodes = await get(`${url}/nodes`, ADMIN_KEY);
+  const names = nodes.status === 200 ? (JSON.parse(nodes.text) as { name: string }[]).map((node) => node.name) : [];
+  check('nodes lists the registered nodes', names.includes('mapper'), nodes.status);
+
+  const list = await get(`${url}/workflows`, ADMIN_KEY);
+  const paths = list.status === 200 ? (JSON.parse(list.text) as { path: string }[]).map((entry) => entry.path) : [];
+  check('workflows lists the fixtures', ['legacy', 'keyed', 'nightly'].every((name) => paths.includes(name)), paths);
+  check('workflows leaves out secrets', !SECRETS.some((secret) => list.text.includes(secret)));
+
+  const legacy = JSON.parse((await get(`${url}/workflows/legacy`, ADMIN_KEY)).text);
+  check(
+    'legacy jwt_secret is described as jwt auth',
+    JSON.stringify(legacy.trigger) ===
+      JSON.stringify({ http: { method: 'GET', path: '/', accept: 'application/json', auth: 'jwt' } }),
+    legacy.trigger,
+  );
+
+  const keyed = await get(`${url}/workflows/keyed`, ADMIN_KEY);
+  const keyedTrigger = JSON.parse(keyed.text).trigger;
+  check('auth settings are reduced to the type', keyedTrigger?.http?.auth === 'api_key', keyedTrigger);
+  check('auth header is left out', !keyed.text.includes('x-key'));
+
+  const nightly = await get(`${url}/workflows/nightly`, ADMIN_KEY);
+  const schedule = JSON.parse(nightly.text).trigger?.schedule;
+  check('schedule keeps its cron', schedule?.cron === '0 3 * * *', schedule);
+  check('schedule headers are left out', !SECRETS.some((secret) => nightly.text.includes(secret)));
+
+  const missing = await get(`${url}/workflows/missing`, ADMIN_KEY);
+  check('unknown workflow gets a 404', missing.status === 404, missing.status);
+
+  done();
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Check failed:', error);
+    process.exit(1);
+  });
+}
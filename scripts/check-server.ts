@@ -0,0 +1,97 @@
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import type HttpTrigger from '../src/runner/HttpTrigger';
+
+/**
+ * Shared setup for the HTTP checks (npm test)
+ *
+ * Starts an HttpTrigger on a free port, with WORKFLOWS_PATH pointing at a temporary directory
+ * holding the fixture workflows of the check, and counts the failed checks.
+ */
+
+export interface CheckServer {
+  url: string;
+  root: string;
+  trigger: HttpTrigger;
+  write(file: string, content: unknown): void;
+  remove(file: string): void;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// Fixtures are relative to WORKFLOWS_PATH, e.g. { 'json/echo.json': {...} }, objects are written as JSON
+export async function startServer(
+  fixtures: Record<string, unknown>,
+  env: Record<string, string> = {},
+): Promise<CheckServer> {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoservice-check-'));
+  process.on('exit', () => fs.rmSync(root, { recursive: true, force: true }));
+
+  const write = (file: string, content: unknown) => {
+    const target = path.join(root, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+  };
+  const remove = (file: string) => fs.rmSync(path.join(root, file), { force: true });
+
+  for (const [file, content] of Object.entries(fixtures)) write(file, content);
+
+  const port = await freePort();
+  Object.assign(process.env, {
+    CONSOLE_LOG_ACTIVE: 'false',
+    SCHEDULE_ENABLED: 'false',
+    ...env,
+    WORKFLOWS_PATH: root,
+    PORT: String(port),
+  });
+
+  // Imported once the environment is set, the trigger reads it on construction
+  const { default: Trigger } = await import('../src/runner/HttpTrigger');
+  const trigger = new Trigger();
+  await trigger.listen();
+
+  return { url: `http://127.0.0.1:${port}`, root, trigger, write, remove };
+}
+
+export function createChecks(suite: string) {
+  let failures = 0;
+
+  return {
+    check(name: string, passed: boolean, detail?: unknown) {
+      if (passed) {
+        console.log(`✅ ${suite}: ${name}`);
+        return;
+      }
+      failures++;
+      console.error(`❌ ${suite}: ${name}${detail !== undefined ? ` (got ${JSON.stringify(detail)})` : ''}`);
+    },
+    done() {
+      if (failures > 0) {
+        console.error(`${failures} ${suite} checks failed`);
+        process.exit(1);
+      }
+      process.exit(0);
+    },
+  };
+}
+
+// Polls until the condition holds, for changes applied in the background like hot reloads
+export async function eventually(condition: () => Promise<boolean> | boolean, timeout = 5000): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    if (await condition()) return true;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  return false;
+}
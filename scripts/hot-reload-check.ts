@@ -0,0 +1,82 @@
+#!/usr/bin/env ts-node
+
+import workflows from '../src/Workflows';
+import { createChecks, eventually, startServer } from './check-server';
+
+/**
+ * Hot Reload Check
+ *
+ * Watches the workflows of a test server (HOT_RELOAD) and changes them on disk to check that:
+ *
+ * - added, changed and removed workflow files are served without a restart
+ * - a file that no longer parses keeps the last version serving
+ * - a file named after a workflow from src/Workflows.ts never replaces it, nor does removing the file
+ *
+ * Usage: npm test, or npm run check:hot-reload
+ */
+
+const SHADOWED = Object.keys(workflows)[0];
+
+// JSON is valid YAML, the files go through the same loader as hand written ones
+function workflow(version: string) {
+  return {
+    name: 'Reloaded',
+    version: '1.0.0',
+    trigger: { http: { method: 'GET', path: '/', accept: 'application/json' } },
+    steps: [{ name: 'echo', node: 'mapper', type: 'module' }],
+    nodes: { echo: { inputs: { model: { version } } } },
+  };
+}
+
+async function main() {
+  const { url, trigger, write, remove } = await startServer({ 'yaml/reloaded.yaml': workflow('v1') });
+  const { check, done } = createChecks('hot reload');
+  trigger.watch();
+
+  const versionOf = async (name: string) => {
+    const response = await fetch(`${url}/${name}`);
+    return response.status === 200 ? ((await response.json()) as { version: string }).version : response.status;
+  };
+  // Events are debounced per file, a later file being served means the earlier ones were handled
+  let sentinels = 0;
+  const settle = () => {
+    const name = `sentinel-${++sentinels}`;
+    write(`yaml/${name}.yaml`, workflow(name));
+    return eventually(async () => (await versionOf(name)) === name);
+  };
+
+  check('workflow served on start', (await versionOf('reloaded')) === 'v1', await versionOf('reloaded'));
+
+  write('yaml/reloaded.yaml', workflow('v2'));
+  check('changed workflow is served', await eventually(async () => (await versionOf('reloaded')) === 'v2'));
+
+  write('yaml/reloaded.yaml', 'name: [not yaml');
+  await settle();
+  check('broken file keeps the last version', (await versionOf('reloaded')) === 'v2', await versionOf('reloaded'));
+
+  write('yaml/added.yaml', workflow('added'));
+  check('added workflow is served', await eventually(async () => (await versionOf('added')) === 'added'));
+
+  remove('yaml/reloaded.yaml');
+  check('removed workflow gets a 404', await eventually(async () => (await versionOf('reloaded')) === 404));
+
+  const isOriginal = () => trigger.getNodeMap().workflows[SHADOWED] === workflows[SHADOWED];
+  write(`yaml/${SHADOWED}.yaml`, workflow('shadow'));
+  await settle();
+  check(`file does not replace ${SHADOWED} from src/Workflows.ts`, isOriginal());
+
+  remove(`yaml/${SHADOWED}.yaml`);
+  await settle();
+  check(`${SHADOWED} stays when the file is removed`, isOriginal());
+
+  trigger.unwatch();
+  done();
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Check failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,96 @@
+#!/usr/bin/env ts-node
+
+import { createChecks, startServer } from './check-server';
+
+/**
+ * Idempotency-Key Check
+ *
+ * Sends retries with the same Idempotency-Key to a test server and checks that:
+ *
+ * - a retry replays the stored response instead of running the workflow again
+ * - reusing a key for a different body is rejected with a 422
+ * - two callers using the same key get their own responses
+ * - a retry lands on the stored response even when the workflow is split between variants
+ * - server errors are not stored, a retry runs again
+ *
+ * Usage: npm test, or npm run check:idempotency
+ */
+
+const API_KEYS = ['key-a', 'key-b'];
+
+// Answers with the run id, so a replay is told apart from a second run
+function echo(model: Record<string, unknown>, http: Record<string, unknown> = {}) {
+  return {
+    name: 'Echo',
+    version: '1.0.0',
+    trigger: { http: { method: 'POST', path: '/', accept: 'application/json', ...http } },
+    steps: [{ name: 'echo', node: 'mapper', type: 'module' }],
+    nodes: { echo: { inputs: { model: { ...model, run: '${ctx.id}' } } } },
+  };
+}
+
+const FIXTURES = {
+  'json/echo.json': echo({ name: '${ctx.request.body.name}' }),
+  'json/keyed.json': echo({}, { auth: { type: 'api_key', keys_env: 'CHECK_API_KEYS' } }),
+  'json/split.json': echo({ variant: 'a' }, { split: { variants: [{ workflow: 'split-b', weight: 50, label: 'b' }] } }),
+  'json/split-b.json': echo({ variant: 'b' }),
+  // mapper only accepts an object model, the run fails with a 500
+  'json/broken.json': {
+    ...echo({}),
+    nodes: { echo: { inputs: { model: ['not', 'an', 'object'] } } },
+  },
+};
+
+async function post(url: string, key: string, body: unknown = {}, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'idempotency-key': key, ...headers },
+    body: JSON.stringify(body),
+  });
+  return {
+    status: response.status,
+    replayed: response.headers.get('idempotent-replayed') === 'true',
+    body: await response.text(),
+  };
+}
+
+async function main() {
+  const { url } = await startServer(FIXTURES, { CHECK_API_KEYS: API_KEYS.join(',') });
+  const { check, done } = createChecks('idempotency');
+
+  const first = await post(`${url}/echo`, 'retry', { name: 'one' });
+  const retry = await post(`${url}/echo`, 'retry', { name: 'one' });
+  check('first request runs the workflow', first.status === 200 && !first.replayed, first);
+  check('retry replays the stored response', retry.replayed && retry.body === first.body, retry);
+
+  const reused = await post(`${url}/echo`, 'retry', { name: 'two' });
+  check('key reused for another body gets a 422', reused.status === 422, reused.status);
+
+  const [a, b] = API_KEYS.map((key) => ({ authorization: `Bearer ${key}` }));
+  const callerA = await post(`${url}/keyed`, 'shared', {}, a);
+  const callerB = await post(`${url}/keyed`, 'shared', {}, b);
+  check('callers sharing a key get their own runs', !callerB.replayed && callerB.body !== callerA.body, callerB);
+  const retryA = await post(`${url}/keyed`, 'shared', {}, a);
+  check('caller retry replays its own response', retryA.replayed && retryA.body === callerA.body, retryA);
+
+  // Without x-client-id every request is assigned a variant at random
+  const split = await post(`${url}/split`, 'split');
+  const retries = await Promise.all(Array.from({ length: 10 }, () => post(`${url}/split`, 'split')));
+  const replayed = retries.filter((retry) => retry.replayed && retry.body === split.body).length;
+  check('split workflow retries replay the first variant', replayed === retries.length, `${replayed} of 10`);
+
+  const failed = await post(`${url}/broken`, 'failure');
+  const failedRetry = await post(`${url}/broken`, 'failure');
+  check('server error is answered', failed.status === 500, failed.status);
+  check('server error is not replayed', failedRetry.status === 500 && !failedRetry.replayed, failedRetry);
+
+  done();
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Check failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,144 @@
+#!/usr/bin/env ts-node
+
+import path from 'node:path';
+import {
+  type GlobalOptions,
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  NodeMap,
+} from '@nanoservice-ts/runner';
+import type { Context } from '@nanoservice-ts/shared';
+import ExecutionPlan from '../src/runner/ExecutionPlan';
+import Logger from '../src/runner/Logger';
+import type RuntimeWorkflow from '../src/runner/types/RuntimeWorkflow';
+import { remoteNodeWorkflow } from '../src/runner/Util';
+
+/**
+ * Remote Node Concurrency Check
+ *
+ * Resolves remote node calls (x-nanoservice-execute-node and gRPC) in parallel, the way the
+ * triggers do, and checks that every call ran its own node with its own inputs:
+ *
+ * - calls spread over several nodes, each waiting a random time between resolving and running
+ * - calls sharing the same client requestId
+ * - calls whose requestId names a workflow in WORKFLOWS_PATH, or a path out of it
+ *
+ * Needs no running server: the nodes are probes registered here, answering with what they got.
+ * Usage: npm test, or npm run check:remote-nodes -- [calls]
+ */
+
+const CALLS = Number(process.argv[2]) || 100;
+const NODES = ['probe-a', 'probe-b', 'probe-c', 'probe-d', 'probe-e', 'probe-f', 'probe-g', 'probe-h'];
+
+process.env.WORKFLOWS_PATH ||= path.resolve(__dirname, '../workflows');
+process.env.CONSOLE_LOG_ACTIVE ||= 'false';
+
+interface RemoteCall {
+  node: string;
+  requestId: string;
+  inputs: { call: number };
+}
+
+type Case = { name: string; calls: RemoteCall[] };
+
+const wait = () => new Promise((resolve) => setTimeout(resolve, Math.random() * 20));
+
+// Answers with its own name and inputs after a random delay, so concurrent runs interleave
+class Probe extends NanoService {
+  constructor(private label: string) {
+    super();
+    this.inputSchema = { type: 'object', properties: { call: { type: 'number' } }, required: ['call'] };
+  }
+
+  async handle(ctx: Context, inputs: JsonLikeObject): Promise<INanoServiceResponse> {
+    await wait();
+    const response = new NanoServiceResponse();
+    response.setSuccess({ node: this.label, call: inputs.call, id: ctx.id });
+    return response;
+  }
+}
+
+function nodeMap(): GlobalOptions {
+  const nodes = new NodeMap();
+  for (const name of NODES) nodes.addNode(name, new Probe(name));
+  return { nodes, workflows: {} } as unknown as GlobalOptions;
+}
+
+// Same steps as HttpTrigger and GrpcTrigger: decode, resolve the plan, other awaits, run
+async function execute(call: RemoteCall, options: GlobalOptions): Promise<unknown> {
+  const message = {
+    request: {},
+    workflow: {
+      name: 'Remote Node',
+      version: '1.0.0',
+      trigger: { http: { method: 'POST', path: '*', accept: 'application/json' } },
+      steps: [{ name: 'node', node: call.node, type: 'module' }],
+      nodes: { node: { inputs: call.inputs } },
+    },
+  } as unknown as RuntimeWorkflow;
+
+  const plan = await ExecutionPlan.forRemoteNode(remoteNodeWorkflow(message, call.node), options);
+  await wait();
+
+  const logger = new Logger(plan.configuration.name, plan.workflow, call.requestId);
+  const ctx = plan.createContext(logger, plan.workflow, call.requestId);
+  const response = await plan.run(ctx);
+  return response.ctx.response.data;
+}
+
+function cases(): Case[] {
+  const callOf = (index: number, requestId: string): RemoteCall => ({
+    node: NODES[index % NODES.length],
+    requestId,
+    inputs: { call: index },
+  });
+  const ids = ['countries', 'films', '../json/countries', 'json/countries', '../../package'];
+
+  return [
+    { name: 'distinct nodes', calls: Array.from({ length: CALLS }, (_, index) => callOf(index, `request-${index}`)) },
+    { name: 'shared requestId', calls: Array.from({ length: CALLS }, (_, index) => callOf(index, 'same-request')) },
+    {
+      name: 'requestId naming a workflow',
+      calls: Array.from({ length: CALLS }, (_, index) => callOf(index, ids[index % ids.length])),
+    },
+  ];
+}
+
+async function main() {
+  const options = nodeMap();
+  let failures = 0;
+
+  for (const { name, calls } of cases()) {
+    const results = await Promise.allSettled(calls.map((call) => execute(call, options)));
+
+    let caseFailures = 0;
+    results.forEach((result, index) => {
+      const call = calls[index];
+      const expected = JSON.stringify({ node: call.node, call: call.inputs.call, id: call.requestId });
+      const actual = result.status === 'fulfilled' ? JSON.stringify(result.value) : `${result.reason}`;
+      if (actual !== expected) {
+        caseFailures++;
+        console.error(`❌ ${name} #${index}: expected ${expected}, got ${actual}`);
+      }
+    });
+
+    failures += caseFailures;
+    const mark = caseFailures === 0 ? '✅' : '❌';
+    console.log(`${mark} ${name}: ${calls.length - caseFailures} of ${calls.length} calls ran their own node`);
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} remote calls got the wrong response`);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Check failed:', error);
+    process.exit(1);
+  });
+}
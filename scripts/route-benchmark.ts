@@ -0,0 +1,83 @@
+#!/usr/bin/env ts-node
+
+import type { GlobalOptions } from '@nanoservice-ts/runner';
+import RouteTable from '../src/runner/RouteTable';
+
+/**
+ * Route Matching Benchmark
+ *
+ * Compares the per-request route matching that HttpTrigger used to do (building the
+ * regular expressions from the trigger path on every request) with the route table
+ * compiled when workflows load.
+ *
+ * Usage: npm run bench:routes -- [iterations]
+ */
+
+const ITERATIONS = Number(process.argv[2]) || 200000;
+
+const ROUTES: { workflow: string; pattern: string; paths: string[] }[] = [
+  { workflow: 'countries', pattern: '/', paths: ['/', ''] },
+  { workflow: 'dashboard-gen', pattern: '/:function?/:id?', paths: ['/', '/html', '/html/42'] },
+  { workflow: 'db-manager', pattern: '/:collection/:id?', paths: ['/users', '/users/7'] },
+  { workflow: 'launches-by-year', pattern: '/:year<int>', paths: ['/2024'] },
+  { workflow: 'films', pattern: '/:id(\\d+)/*rest', paths: ['/12/cast/lead'] },
+];
+
+// What validateRoute and handleDynamicRoute did on every request
+function legacyMatch(pattern: string, path: string): Record<string, string> | undefined {
+  const regexPattern = pattern
+    .replace(/\/:\w+\?/g, '(?:/([^/]+)?)?')
+    .replace(/\/:\w+/g, '/([^/]+)')
+    .replace(/\*/g, '.*');
+  if (!new RegExp(`^${regexPattern}$`).test(path)) return undefined;
+
+  const params: Record<string, string> = {};
+  const names = pattern.match(/:(\w+)/g)?.map((name) => name.substring(1)) || [];
+  const match = path.match(new RegExp(`^${pattern.replace(/:\w+/g, '([^\\/]+)')}$`));
+  names.forEach((name, index) => {
+    if (match) params[name] = match[index + 1];
+  });
+
+  return params;
+}
+
+function measure(label: string, match: (workflow: string, pattern: string, path: string) => unknown) {
+  const requests = ROUTES.flatMap((route) => route.paths.map((path) => ({ ...route, path })));
+  const start = process.hrtime.bigint();
+
+  for (let i = 0; i < ITERATIONS; i++) {
+    const request = requests[i % requests.length];
+    match(request.workflow, request.pattern, request.path);
+  }
+
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+  const perSecond = Math.round((ITERATIONS / elapsed) * 1000);
+  console.log(`${label.padEnd(16)} ${elapsed.toFixed(1).padStart(9)} ms  ${perSecond.toLocaleString()} matches/s`);
+}
+
+function main() {
+  const workflows = Object.fromEntries(
+    ROUTES.map((route) => [
+      route.workflow,
+      { toJson: () => JSON.stringify({ trigger: { http: { method: 'GET', path: route.pattern } } }) },
+    ])
+  );
+  const table = new RouteTable({ workflows } as unknown as GlobalOptions);
+  table.sync();
+
+  console.log(`Matching ${ITERATIONS.toLocaleString()} request paths\n`);
+  measure('per request', (_workflow, pattern, path) => legacyMatch(pattern, path));
+  measure('route table', (workflow, pattern, path) => table.match(workflow, pattern, path));
+
+  console.log('\nParams from the route table:');
+  for (const route of ROUTES) {
+    for (const path of route.paths) {
+      console.log(`  ${route.workflow}${path} -> ${JSON.stringify(table.match(route.workflow, route.pattern, path))}`);
+    }
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -1,7 +1,7 @@
 
-import ApiCall from "@nanoservice-ts/api-call";
 import IfElse from "@nanoservice-ts/if-else";
 import type { NodeBase } from "@nanoservice-ts/shared";
+import ApiCall from "./nodes/api-call";
 import ExampleNodes from "./nodes/examples";
 
 // Import analytics nodes
@@ -1,6 +1,7 @@
 import { NanoService } from "@nanoservice-ts/runner";
 import fs from "node:fs";
 import path from "node:path";
+import WorkflowLoader from "../runner/WorkflowLoader";
 
 /**
  * Interface for MCP Tool definition
@@ -168,7 +169,7 @@ export class NodeToMCPAdapter {
   }
 
   /**
-   * Discover workflows from multiple formats (JSON, TOML, YAML)
+   * Discover workflows from every supported format (JSON, YAML, TOML, XML)
    */
   static discoverWorkflowsAsMCPTools(
     workflowsDir: string = path.resolve(process.cwd(), "workflows"),
@@ -179,69 +180,46 @@ export class NodeToMCPAdapter {
     const { excludeWorkflows = [] } = options;
     const tools: MCPTool[] = [];
     
-    // Process different format directories
-    const formats = [
-      { dir: "json", parse: JSON.parse, ext: ".json" },
-    ];
+    const loader = new WorkflowLoader(workflowsDir);
+    const { workflows, errors } = loader.loadAll(excludeWorkflows);
     
-    for (const format of formats) {
-      const formatDir = path.join(workflowsDir, format.dir);
+    console.log(`Found ${workflows.length} workflow files in ${workflowsDir}`);
+    
+    for (const error of errors) {
+      console.error(`Error processing workflow: ${error.message}`);
+    }
+    
+    for (const { name: workflowName, definition: workflow } of workflows) {
+      // Extract workflow information
+      const description = workflow.description || `Workflow: ${workflow.name}`;
+      const httpTrigger = workflow.trigger.http as { method?: string; path?: string } | undefined;
       
-      if (!fs.existsSync(formatDir)) {
-        console.log(`Workflow directory not found: ${formatDir}`);
+      // Skip workflows with no HTTP trigger
+      if (!httpTrigger) {
+        console.log(`Skipping workflow ${workflowName}: No HTTP trigger`);
         continue;
       }
       
-      // Read all files with the specific extension
-      const workflowFiles = fs.readdirSync(formatDir)
-        .filter(file => file.endsWith(format.ext))
-        .filter(file => !excludeWorkflows.includes(file.replace(format.ext, "")));
+      // Extract HTTP method information
+      const httpMethod = httpTrigger.method || 'POST';
+      // Default to GET for wildcard (*) method
+      const normalizedMethod = httpMethod === '*' ? 'GET' : httpMethod.toUpperCase();
       
-      console.log(`Found ${workflowFiles.length} workflow files in ${formatDir}`);
+      // Generate schema based on workflow trigger and steps
+      const schema = this.extractSchemaFromWorkflow(workflow);
       
-      for (const file of workflowFiles) {
-        try {
-          const filePath = path.join(formatDir, file);
-          const content = fs.readFileSync(filePath, "utf8");
-          const workflow = format.parse(content);
-          
-          // Extract workflow information
-          const name = workflow.name || file.replace(format.ext, "");
-          const description = workflow.description || `Workflow: ${name}`;
-          
-          // Skip workflows with no HTTP trigger
-          if (!workflow.trigger?.http) {
-            console.log(`Skipping workflow ${file}: No HTTP trigger`);
-            continue;
-          }
-          
-          // Extract HTTP method information
-          const httpMethod = workflow.trigger.http.method || 'POST';
-          // Default to GET for wildcard (*) method
-          const normalizedMethod = httpMethod === '*' ? 'GET' : httpMethod.toUpperCase();
-          
-          // Generate schema based on workflow trigger and steps
-          const schema = this.extractSchemaFromWorkflow(workflow);
-          
-          // Generate implementation that calls the workflow with correct HTTP method
-          const implementation = this.generateWorkflowImplementation(
-            file.replace(format.ext, ""),
-            normalizedMethod
-          );
-          
-          tools.push({
-            name: this.sanitizeToolName(file.replace(format.ext, "")),
-            description,
-            schema,
-            httpMethod: normalizedMethod,
-            implementation
-          });
-          
-          console.log(`Added workflow as tool: ${file.replace(format.ext, "")} (HTTP Method: ${normalizedMethod})`);
-        } catch (error) {
-          console.error(`Error processing workflow ${file}:`, error);
-        }
-      }
+      // Generate implementation that calls the workflow with correct HTTP method
+      const implementation = this.generateWorkflowImplementation(workflowName, normalizedMethod);
+      
+      tools.push({
+        name: this.sanitizeToolName(workflowName),
+        description,
+        schema,
+        httpMethod: normalizedMethod,
+        implementation
+      });
+      
+      console.log(`Added workflow as tool: ${workflowName} (HTTP Method: ${normalizedMethod})`);
     }
     
     return tools;
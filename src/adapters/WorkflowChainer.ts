@@ -1,8 +1,8 @@
 import { NanoServiceResponse } from "@nanoservice-ts/runner";
 import path from "node:path";
 import { MCPTool } from "./NodeToMCPAdapter";
-import fs from "fs";
 import { NodeToMCPAdapter } from "./NodeToMCPAdapter";
+import WorkflowLoader from "../runner/WorkflowLoader";
 
 /**
  * Custom context interface compatible with the nanoservice context structure
@@ -140,40 +140,26 @@ export class WorkflowChainer {
     
     try {
       // Get workflows directly from the filesystem instead of API
-      const jsonDir = path.join(workflowsDir, 'json');
+      const loader = new WorkflowLoader(workflowsDir);
+      const { workflows, errors } = loader.loadAll(excludeWorkflows);
+      console.log(`Found ${workflows.length} potential workflow files in ${workflowsDir}`);
       
-      // Check if the directory exists
-      if (!fs.existsSync(jsonDir)) {
-        console.warn(`Workflow directory not found: ${jsonDir}`);
-        return tools;
+      for (const error of errors) {
+        console.error(`Error processing workflow file: ${error.message}`);
       }
       
-      // Read all JSON files in the directory
-      const files = fs.readdirSync(jsonDir).filter(file => file.endsWith('.json'));
-      console.log(`Found ${files.length} potential workflow files in ${jsonDir}`);
-      
-      for (const file of files) {
+      for (const { name: workflowName, definition: workflow } of workflows) {
         try {
-          // Skip excluded workflows
-          if (excludeWorkflows.includes(file.replace(/\.json$/, ''))) {
-            console.log(`Skipping excluded workflow: ${file}`);
-            continue;
-          }
-          
-          const filePath = path.join(jsonDir, file);
-          const content = fs.readFileSync(filePath, 'utf8');
-          const workflow = JSON.parse(content);
-          
           // Skip workflows with no HTTP trigger
-          if (!workflow.trigger?.http) {
-            console.log(`Skipping workflow ${file}: No HTTP trigger`);
+          const httpTrigger = workflow.trigger.http as { method?: string } | undefined;
+          if (!httpTrigger) {
+            console.log(`Skipping workflow ${workflowName}: No HTTP trigger`);
             continue;
           }
           
           // Extract workflow information
-          const workflowName = file.replace(/\.json$/, '');
           const workflowPath = `/${workflowName}`;
-          const httpMethod = workflow.trigger.http.method || 'POST';
+          const httpMethod = httpTrigger.method || 'POST';
           
           // Use the enhanced schema extraction from NodeToMCPAdapter
           const schema = NodeToMCPAdapter.extractSchemaFromWorkflow(workflow);
@@ -190,15 +176,17 @@ export class WorkflowChainer {
                 const baseUrl = process.env.NANOSERVICE_BASE_URL || 'http://localhost:4000';
                 const url = \`\${baseUrl}${workflowPath}\`;
                 const method = '${httpMethod === '*' ? 'GET' : httpMethod.toLowerCase()}';
+                // W3C trace context of the calling workflow, when the executor provides it
+                const headers = typeof traceHeaders === 'object' ? traceHeaders : {};
                 
                 let response;
                 if (method === 'get') {
                   // For GET, convert inputs to query params
                   const queryParams = new URLSearchParams(inputs.data || inputs).toString();
-                  response = await axios.get(url + (queryParams ? '?' + queryParams : ''));
+                  response = await axios.get(url + (queryParams ? '?' + queryParams : ''), { headers });
                 } else {
                   // For other methods, use the appropriate axios method
-                  response = await axios[method](url, inputs.data || inputs);
+                  response = await axios[method](url, inputs.data || inputs, { headers });
                 }
                 
                 return response.data;
@@ -211,7 +199,7 @@ export class WorkflowChainer {
           tools.push(tool);
           console.log(`Added workflow as tool: ${workflowName} (HTTP method: ${tool.httpMethod})`);
         } catch (error) {
-          console.error(`Error processing workflow file ${file}:`, error);
+          console.error(`Error processing workflow ${workflowName}:`, error);
         }
       }
     } catch (error) {
@@ -246,6 +234,7 @@ export class WorkflowChainer {
           
           const axios = require('axios');
           const baseUrl = process.env.NANOSERVICE_BASE_URL || 'http://localhost:4000';
+          const headers = typeof traceHeaders === 'object' ? traceHeaders : {};
           let currentInput = inputs.initial_input || {};
           let finalResult = null;
           
@@ -255,7 +244,7 @@ export class WorkflowChainer {
             const response = await axios.post(executeUrl, {
               name: toolName,
               parameters: currentInput
-            });
+            }, { headers });
             
             finalResult = response.data?.result || response.data;
             currentInput = finalResult;
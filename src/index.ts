@@ -1,16 +1,19 @@
-import { DefaultLogger } from "@nanoservice-ts/runner";
 import { type Span, metrics, trace } from "@opentelemetry/api";
+import GrpcTrigger from "./runner/GrpcTrigger";
 import HttpTrigger from "./runner/HttpTrigger";
+import Logger from "./runner/Logger";
+import "./runner/metrics/opentelemetry_traces";
 
 export default class App {
 	private httpTrigger: HttpTrigger = <HttpTrigger>{};
+	private grpcTrigger: GrpcTrigger | undefined;
 	protected trigger_initializer = 0;
 	protected initializer = 0;
 	protected tracer = trace.getTracer(
 		process.env.PROJECT_NAME || "trigger-http-server",
 		process.env.PROJECT_VERSION || "0.0.1",
 	);
-	private logger = new DefaultLogger();
+	private logger = new Logger();
 	protected app_cold_start = metrics.getMeter("default").createGauge("initialization", {
 		description: "Application cold start",
 	});
@@ -18,20 +21,32 @@ export default class App {
 	constructor() {
 		this.initializer = performance.now();
 		this.httpTrigger = new HttpTrigger();
+		if (process.env.GRPC_ENABLED === "true") {
+			this.grpcTrigger = new GrpcTrigger(
+				this.httpTrigger.getNodeMap(),
+				this.httpTrigger.getStats(),
+				this.httpTrigger.getVersions(),
+			);
+		}
 	}
 
+	// Rejects when a trigger cannot start, e.g. the gRPC port is already in use
 	async run() {
-		this.tracer.startActiveSpan("initialization", async (span: Span) => {
-			await this.httpTrigger.listen();
-			this.initializer = performance.now() - this.initializer;
+		await this.tracer.startActiveSpan("initialization", async (span: Span) => {
+			try {
+				await this.httpTrigger.listen();
+				await this.grpcTrigger?.listen();
+				this.initializer = performance.now() - this.initializer;
 
-			this.logger.log(`Server initialized in ${(this.initializer).toFixed(2)}ms`);
-			this.app_cold_start.record(this.initializer, {
-				pid: process.pid,
-				env: process.env.NODE_ENV,
-				app: process.env.APP_NAME,
-			});
-			span.end();
+				this.logger.log(`Server initialized in ${(this.initializer).toFixed(2)}ms`);
+				this.app_cold_start.record(this.initializer, {
+					pid: process.pid,
+					env: process.env.NODE_ENV,
+					app: process.env.APP_NAME,
+				});
+			} finally {
+				span.end();
+			}
 		});
 	}
 
@@ -42,5 +57,9 @@ export default class App {
 }
 
 if (process.env.DISABLE_TRIGGER_RUN !== "true") {
-	new App().run();
+	new App().run().catch((e: unknown) => {
+		const error = e as Error;
+		new Logger().error(`Unable to start the server: ${error.message}`, `${error.stack?.replace(/\n/g, " ")}`);
+		process.exit(1);
+	});
 }
@@ -2,9 +2,14 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { type CallToolRequest, CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
 import fs from "fs";
 import path from "path";
+// Tool calls are traced and the trace context is forwarded to nanoservice. Use the otlp
+// exporter here, the console exporter writes to stdout and would break the stdio transport.
+import "./runner/metrics/opentelemetry_traces";
+import { traceHeaders } from "./runner/TraceContext";
 
 // Create logging
 // Use the directory where the script is located, not the root
@@ -46,9 +51,17 @@ function log(message: string) {
 const nanoserviceUrl = process.env.NANOSERVICE_BASE_URL || "http://localhost:4000";
 log(`Using nanoservice URL: ${nanoserviceUrl}`);
 
+// The /nodes and /workflows fallbacks are admin routes, sent as a Bearer token so it works
+// with the default api_key auth (ADMIN_API_KEYS) and with a jwt ADMIN_AUTH alike
+const adminHeaders: Record<string, string> = process.env.ADMIN_API_KEY
+  ? { Authorization: `Bearer ${process.env.ADMIN_API_KEY}` }
+  : {};
+
 // Simple dictionary to store tools by name
 let availableTools: any[] = [];
 
+const tracer = trace.getTracer(process.env.PROJECT_NAME || "mcp-entry", process.env.PROJECT_VERSION || "0.0.1");
+
 // Create server
 const server = new Server(
   {
@@ -97,7 +110,7 @@ async function fetchAvailableTools(): Promise<any[]> {
         // Try to get nodes directly first
         try {
           log("Attempting to fetch nodes directly...");
-          const response = await fetch(`${nanoserviceUrl}/nodes`);
+          const response = await fetch(`${nanoserviceUrl}/nodes`, { headers: adminHeaders });
           if (!response.ok) {
             throw new Error(`HTTP error: ${response.status}`);
           }
@@ -115,7 +128,7 @@ async function fetchAvailableTools(): Promise<any[]> {
           
           // Then try to add workflows
           try {
-            const workflowResponse = await fetch(`${nanoserviceUrl}/workflows`);
+            const workflowResponse = await fetch(`${nanoserviceUrl}/workflows`, { headers: adminHeaders });
             if (!workflowResponse.ok) {
               throw new Error(`HTTP error: ${workflowResponse.status}`);
             }
@@ -148,7 +161,7 @@ async function fetchAvailableTools(): Promise<any[]> {
           
           // Final attempt - directly query workflows if possible
           try {
-            const response = await fetch(`${nanoserviceUrl}/workflows`);
+            const response = await fetch(`${nanoserviceUrl}/workflows`, { headers: adminHeaders });
             if (!response.ok) {
               throw new Error(`HTTP error: ${response.status}`);
             }
@@ -213,7 +226,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function callTool(request: CallToolRequest) {
   try {
     const { name, arguments: args = {} } = request.params;
     log(`Executing tool: ${name} with args: ${JSON.stringify(args)}`);
@@ -253,9 +266,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Call the tool directly
         const toolResponse = await fetch(`${nanoserviceUrl}/auto-mcp-server/execute`, {
           method: 'POST',
-          headers: {
+          headers: traceHeaders({
             'Content-Type': 'application/json'
-          },
+          }),
           body: JSON.stringify({
             name: sequenceTool,
             parameters: currentInput
@@ -302,15 +315,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
         const queryString = queryParams.toString();
-        response = await fetch(`${nanoserviceUrl}/${name}${queryString ? '?' + queryString : ''}`);
+        response = await fetch(`${nanoserviceUrl}/${name}${queryString ? '?' + queryString : ''}`, {
+          headers: traceHeaders()
+        });
         break;
       
       case 'delete':
         response = await fetch(`${nanoserviceUrl}/${name}`, {
           method: 'DELETE',
-          headers: {
+          headers: traceHeaders({
             'Content-Type': 'application/json'
-          },
+          }),
           body: JSON.stringify(args)
         });
         break;
@@ -318,9 +333,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'put':
         response = await fetch(`${nanoserviceUrl}/${name}`, {
           method: 'PUT',
-          headers: {
+          headers: traceHeaders({
             'Content-Type': 'application/json'
-          },
+          }),
           body: JSON.stringify(args)
         });
         break;
@@ -328,9 +343,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'patch':
         response = await fetch(`${nanoserviceUrl}/${name}`, {
           method: 'PATCH',
-          headers: {
+          headers: traceHeaders({
             'Content-Type': 'application/json'
-          },
+          }),
           body: JSON.stringify(args)
         });
         break;
@@ -340,9 +355,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Default to POST for backward compatibility
         response = await fetch(`${nanoserviceUrl}/${name}`, {
           method: 'POST',
-          headers: {
+          headers: traceHeaders({
             'Content-Type': 'application/json'
-          },
+          }),
           body: JSON.stringify(args)
         });
         break;
@@ -372,7 +387,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+server.setRequestHandler(CallToolRequestSchema, (request) =>
+  tracer.startActiveSpan(`tools/call ${request.params.name}`, { kind: SpanKind.CLIENT }, async (span) => {
+    try {
+      const result = await callTool(request);
+      if (result.isError) span.setStatus({ code: SpanStatusCode.ERROR });
+      return result;
+    } finally {
+      span.end();
+    }
+  })
+);
 
 // Start server
 async function runServer() {
@@ -6,6 +6,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import pg from "pg";
+import { cancelQueryOnAbort, signalOf } from "../../../runner/Cancellation";
 
 type PostgresAnalyticsInputs = {
 	user: string;
@@ -96,20 +97,29 @@ export default class PostgresAnalyticsQuery extends NanoService<PostgresAnalytic
 			const { Client } = pg;
 			
 			// Create client with dynamic configuration
-			const client = new Client({
+			const config: pg.ClientConfig = {
 				user: inputs.user,
 				password: inputs.password,
 				host: inputs.host,
 				port: inputs.port || 5432,
 				database: inputs.database, // Dynamic database name!
-			});
+			};
+			const client = new Client(config);
+			const signal = signalOf(ctx);
+			signal?.throwIfAborted();
 
-			// Connect and execute query
+			// Connect and execute query, cancelling it if the workflow times out
 			await client.connect();
-			const result = inputs.parameters && inputs.parameters.length > 0 
-				? await client.query(inputs.query, inputs.parameters)
-				: await client.query(inputs.query);
-			await client.end();
+			const removeCancel = cancelQueryOnAbort(client, config, signal);
+			let result: pg.QueryResult;
+			try {
+				result = inputs.parameters && inputs.parameters.length > 0 
+					? await client.query(inputs.query, inputs.parameters)
+					: await client.query(inputs.query);
+			} finally {
+				removeCancel();
+				await client.end();
+			}
 
 			// Format response
 			if (Array.isArray(result)) {
@@ -5,6 +5,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import * as pg from "pg";
+import { cancelQueryOnAbort, signalOf } from "../../../runner/Cancellation";
 
 /**
  * Input schema for schema discovery
@@ -132,7 +133,8 @@ export default class SchemaDiscoveryNode extends NanoService<SchemaDiscoveryInpu
 				dbConfig,
 				schemaName,
 				inputs.include_relationships || false,
-				inputs.include_statistics || false
+				inputs.include_statistics || false,
+				signalOf(ctx)
 			);
 
 			// Store schema in context for other nodes
@@ -159,13 +161,18 @@ export default class SchemaDiscoveryNode extends NanoService<SchemaDiscoveryInpu
 		dbConfig: any,
 		schemaName: string,
 		includeRelationships: boolean,
-		includeStatistics: boolean
+		includeStatistics: boolean,
+		signal?: AbortSignal
 	): Promise<DatabaseSchema> {
 		const { Client } = pg;
 		const client = new Client(dbConfig);
+		let removeCancel = () => {};
 
 		try {
+			signal?.throwIfAborted();
 			await client.connect();
+			// Cancels the running query when the workflow or step times out
+			removeCancel = cancelQueryOnAbort(client, dbConfig, signal);
 
 			// Get all tables in the schema
 			const tables = await this.getTables(client, schemaName);
@@ -174,6 +181,7 @@ export default class SchemaDiscoveryNode extends NanoService<SchemaDiscoveryInpu
 			const tableInfos: TableInfo[] = [];
 			
 			for (const table of tables) {
+				signal?.throwIfAborted();
 				const columns = await this.getTableColumns(client, schemaName, table.table_name);
 				
 				const tableInfo: TableInfo = {
@@ -190,6 +198,7 @@ export default class SchemaDiscoveryNode extends NanoService<SchemaDiscoveryInpu
 				tableInfos.push(tableInfo);
 			}
 
+			removeCancel();
 			await client.end();
 
 			return {
@@ -200,6 +209,7 @@ export default class SchemaDiscoveryNode extends NanoService<SchemaDiscoveryInpu
 			};
 
 		} catch (error) {
+			removeCancel();
 			await client.end();
 			throw new Error(`Schema discovery failed: ${(error as Error).message}`);
 		}
@@ -0,0 +1,47 @@
+import ApiCall from "@nanoservice-ts/api-call";
+import { type INanoServiceResponse, type JsonLikeObject, NanoServiceResponse } from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { signalOf } from "../../runner/Cancellation";
+import { traceHeaders } from "../../runner/TraceContext";
+
+/**
+ * @nanoservice-ts/api-call with the request bound to ctx.signal, so a workflow or step
+ * timeout aborts the fetch instead of leaving it open. The active trace context is sent
+ * along in `traceparent`.
+ */
+export default class CancellableApiCall extends ApiCall {
+	async handle(ctx: Context, inputs: JsonLikeObject): Promise<INanoServiceResponse> {
+		const response: NanoServiceResponse = new NanoServiceResponse();
+
+		try {
+			const method = inputs.method as string;
+			const body = inputs.body || ctx.response.data;
+
+			const result = await fetch(inputs.url as string, {
+				method,
+				headers: traceHeaders(inputs.headers as Record<string, string>),
+				redirect: "follow",
+				body: method === "GET" ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+				signal: signalOf(ctx),
+			});
+
+			if (result.status >= 400 && result.ok === false) {
+				throw new Error(result.statusText);
+			}
+
+			if (result.headers.get("content-type")?.includes("application/json")) {
+				response.setSuccess((await result.json()) as JsonLikeObject);
+			} else {
+				response.setSuccess(await result.text());
+			}
+		} catch (error: unknown) {
+			const nodeError: GlobalError = new GlobalError((error as Error).message);
+			nodeError.setCode(500);
+			nodeError.setStack((error as Error).stack);
+			nodeError.setName(this.name);
+			response.setError(nodeError);
+		}
+
+		return response;
+	}
+}
@@ -8,6 +8,7 @@ import {
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { generateObject } from "ai";
 import { z } from "zod";
+import { signalOf } from "../../../runner/Cancellation";
 
 type InputType = {
 	tables: Array<object>;
@@ -88,6 +89,7 @@ export default class DashboardChartsGenerator extends NanoService<InputType> {
             `;
 
 			const result = await generateObject({
+				abortSignal: signalOf(ctx),
 				model: openai("gpt-4o", {
 					structuredOutputs: true,
 				}),
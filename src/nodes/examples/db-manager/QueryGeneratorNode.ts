@@ -7,6 +7,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { generateText } from "ai";
+import { signalOf } from "../../../runner/Cancellation";
 
 type InputType = {
 	table_name: string;
@@ -73,6 +74,7 @@ export default class QueryGeneratorNode extends NanoService<InputType> {
 					 Double check the query to not include markdown code blocks or any other text that is not a valid SQL query.`;
 
 			const { text: sqlQuery } = await generateText({
+				abortSignal: signalOf(ctx),
 				model: openai("gpt-4o"),
 				system: `You are a SQL expert. Generate only valid SQL queries without any explanations or markdown. 
 					 The query should be executable directly against a PostgreSQL database.`,
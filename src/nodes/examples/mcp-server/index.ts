@@ -6,6 +6,7 @@ import {
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { MCPRegistry } from "../../../adapters/MCPRegistry";
 import { MCPTool } from "../../../adapters/NodeToMCPAdapter";
+import { traceHeaders } from "../../../runner/TraceContext";
 import { MCPRequestContext } from "../../../runner/types/mcp";
 
 // Input type for the MCP server node
@@ -72,17 +73,17 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 			const path = ctx.request.params.mcp_operation || '';
 			const debug = inputs.debug_mode || false;
 
-			// Log request in debug mode
+			// Log request in debug mode, written at the debug level (LOG_LEVEL=debug) with secrets redacted
 			if (debug) {
-				console.log(`MCP Request: ${path}`, {
+				ctx.logger.logLevel("debug", `MCP Request: ${path} ${JSON.stringify({
 					method: ctx.request.method,
 					body: ctx.request.body,
 					params: ctx.request.params
-				});
+				})}`);
 			}
 
 			// Get all available tools
-			const allTools = await this.getAllTools(inputs);
+			const allTools = await this.getAllTools(ctx, inputs);
 
 			// Handle different MCP operations
 			switch (path) {
@@ -113,13 +114,13 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 	/**
 	 * Get all tools from various sources
 	 */
-	private async getAllTools(inputs: InputType): Promise<MCPTool[]> {
+	private async getAllTools(ctx: Context, inputs: InputType): Promise<MCPTool[]> {
 		// Start with manually defined tools
 		let allTools: MCPTool[] = inputs.tools || [];
 		
 		const debug = inputs.debug_mode || false;
 		if (debug) {
-			console.log(`[MCP] Starting tool discovery...`);
+			ctx.logger.logLevel("debug", `[MCP] Starting tool discovery...`);
 		}
 		
 		// Use the improved fetchAvailableTools method for better error handling
@@ -136,22 +137,22 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 				});
 				
 				if (debug) {
-					console.log(`[MCP] Found ${discoveredTools.length} tools from all sources`);
+					ctx.logger.logLevel("debug", `[MCP] Found ${discoveredTools.length} tools from all sources`);
 					if (inputs.discover_nodes !== false) {
-						console.log(`[MCP] - Node discovery is enabled`);
+						ctx.logger.logLevel("debug", `[MCP] - Node discovery is enabled`);
 					}
 					if (inputs.discover_workflows === true) {
-						console.log(`[MCP] - Workflow discovery is enabled`);
+						ctx.logger.logLevel("debug", `[MCP] - Workflow discovery is enabled`);
 					}
-					console.log(`[MCP] - Node tools have priority over workflow tools`);
+					ctx.logger.logLevel("debug", `[MCP] - Node tools have priority over workflow tools`);
 				}
 				
 				allTools = [...allTools, ...discoveredTools];
 			} catch (error) {
-				console.error(`[MCP] Error during tool discovery:`, error);
+				ctx.logger.error(`[MCP] Error during tool discovery: ${(error as Error).message}`, `${(error as Error).stack}`);
 				// Continue with any tools we already have
 				if (debug) {
-					console.log(`[MCP] Continuing with ${allTools.length} manually defined tools despite discovery error`);
+					ctx.logger.logLevel("debug", `[MCP] Continuing with ${allTools.length} manually defined tools despite discovery error`);
 				}
 			}
 		}
@@ -170,17 +171,17 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 				// Replace existing weather tool
 				allTools[weatherToolIndex] = enhancedWeatherTool;
 				if (debug) {
-					console.log(`[MCP] Replaced existing weather tool with enhanced version`);
+					ctx.logger.logLevel("debug", `[MCP] Replaced existing weather tool with enhanced version`);
 				}
 			} else {
 				// Add new weather tool
 				allTools.push(enhancedWeatherTool);
 				if (debug) {
-					console.log(`[MCP] Added enhanced weather tool`);
+					ctx.logger.logLevel("debug", `[MCP] Added enhanced weather tool`);
 				}
 			}
 		} else if (debug) {
-			console.log(`[MCP] Skipping weather tool (in excluded_workflows list)`);
+			ctx.logger.logLevel("debug", `[MCP] Skipping weather tool (in excluded_workflows list)`);
 		}
 		
 		// Add the specialized tool for listing all available tools
@@ -196,16 +197,16 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 			if (listToolsIndex !== -1) {
 				allTools[listToolsIndex] = listToolsTool;
 				if (debug) {
-					console.log(`[MCP] Replaced existing list_available_tools tool`);
+					ctx.logger.logLevel("debug", `[MCP] Replaced existing list_available_tools tool`);
 				}
 			} else {
 				allTools.push(listToolsTool);
 				if (debug) {
-					console.log(`[MCP] Added specialized list_available_tools tool`);
+					ctx.logger.logLevel("debug", `[MCP] Added specialized list_available_tools tool`);
 				}
 			}
 		} else if (debug) {
-			console.log(`[MCP] Skipping list_available_tools tool (in excluded_workflows list)`);
+			ctx.logger.logLevel("debug", `[MCP] Skipping list_available_tools tool (in excluded_workflows list)`);
 		}
 		
 		// Add node-to-workflow debugger tool
@@ -213,9 +214,9 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 		// allTools.push(debuggerTool);
 		
 		if (debug) {
-			console.log(`[MCP] Total tools available: ${allTools.length}`);
+			ctx.logger.logLevel("debug", `[MCP] Total tools available: ${allTools.length}`);
 			allTools.forEach(tool => {
-				console.log(`[MCP] - ${tool.name}: ${tool.description}`);
+				ctx.logger.logLevel("debug", `[MCP] - ${tool.name}: ${tool.description}`);
 			});
 		}
 		
@@ -384,8 +385,8 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 				context: mcpContext
 			};
 			
-			// Convert function string to async function
-			const asyncExecuteFn = new Function('inputs', `
+			// Convert function string to async function, traceHeaders carries the W3C trace context for outgoing calls
+			const asyncExecuteFn = new Function('inputs', 'traceHeaders', `
 				return (async () => {
 					try {
 						${tool.implementation}
@@ -399,7 +400,7 @@ export default class StatelessMCPNode extends NanoService<InputType> {
 			`);
 			
 			// Execute the tool implementation with the provided parameters
-			return await asyncExecuteFn(inputs);
+			return await asyncExecuteFn(inputs, traceHeaders());
 		} catch (error) {
 			throw new Error(`Error executing tool: ${(error as Error).message}`);
 		}
@@ -6,6 +6,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import pg from "pg";
+import { cancelQueryOnAbort, signalOf } from "../../../runner/Cancellation";
 
 type PostgresQueryInputs = {
 	user: string;
@@ -53,17 +54,27 @@ export default class PostgresQuery extends NanoService<PostgresQueryInputs> {
 
 		try {
 			const { Client } = pg;
-			const client = new Client({
+			const config: pg.ClientConfig = {
 				user: inputs.user as string,
 				password: inputs.password as string,
 				host: inputs.host as string,
 				port: 5432,
 				database: "dvdrental",
-			});
+			};
+			const client = new Client(config);
+			const signal = signalOf(ctx);
+			signal?.throwIfAborted();
 
 			await client.connect();
-			const result = await client.query(inputs.query as string);
-			await client.end();
+			// Cancels the query when the workflow or step times out
+			const removeCancel = cancelQueryOnAbort(client, config, signal);
+			let result: pg.QueryResult;
+			try {
+				result = await client.query(inputs.query as string);
+			} finally {
+				removeCancel();
+				await client.end();
+			}
 
 			if (Array.isArray(result)) {
 				const tables: Table[] = [];
@@ -2,6 +2,7 @@ import { createOpenAI } from "@ai-sdk/openai";
 import { type INanoServiceResponse, NanoService, NanoServiceResponse } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { generateText } from "ai";
+import { signalOf } from "../../../runner/Cancellation";
 import InMemory from "./InMemory";
 
 type InputType = {
@@ -54,6 +55,7 @@ export default class OpenAI extends NanoService<InputType> {
 				});
 
 				const { text } = await generateText({
+					abortSignal: signalOf(ctx),
 					model: openai("gpt-4o"),
 					system: inputs.system?.join(","),
 					prompt: inputs.prompt.join(","),
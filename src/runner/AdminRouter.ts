@@ -0,0 +1,221 @@
+import type { GlobalOptions } from "@nanoservice-ts/runner";
+import type { NodeBase } from "@nanoservice-ts/shared";
+import express, { type NextFunction, type Request, type Response } from "express";
+import type { Schema } from "jsonschema";
+import { v4 as uuid } from "uuid";
+import workflows from "../Workflows";
+import Logger from "./Logger";
+import type PluginLoader from "./PluginLoader";
+import { httpError, sendProblem, toProblem } from "./Problem";
+import type ScheduleTrigger from "./ScheduleTrigger";
+import WorkflowLoader from "./WorkflowLoader";
+import type WorkflowStats from "./WorkflowStats";
+import AuthError from "./auth/AuthError";
+import type AuthManager from "./auth/AuthManager";
+import type AuthConfig from "./types/AuthConfig";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type ScheduleTriggerConfig from "./types/ScheduleTriggerConfig";
+import type WorkflowDefinition from "./types/WorkflowDefinition";
+import type { WorkflowStep } from "./types/WorkflowDefinition";
+
+const ROUTES = ["/nodes", "/workflows", "/schedules"];
+
+type NodeWithSchemas = NodeBase & { inputSchema?: Schema; outputSchema?: Schema; description?: string };
+
+type Condition = { type?: string; condition?: string; steps?: WorkflowStep[] };
+
+type StepTree = {
+	name: string;
+	node: string;
+	type: string;
+	timeout?: number;
+	conditions?: { type: string; condition?: string; steps: StepTree[] }[];
+};
+
+/**
+ * Read-only introspection of the registered and plugin nodes, the loaded workflows and their
+ * runtime stats, mounted at ADMIN_PATH (the root by default, where mcp-entry looks for /nodes
+ * and /workflows).
+ *
+ * Enabled with ADMIN_ENABLED, which defaults to false when NODE_ENV is production. Requests
+ * are authenticated with ADMIN_AUTH, an API key from ADMIN_API_KEYS unless configured otherwise.
+ */
+export default class AdminRouter {
+	private logger = new Logger();
+
+	constructor(
+		private nodeMap: GlobalOptions,
+		private loader: WorkflowLoader,
+		private scheduler: ScheduleTrigger,
+		private stats: WorkflowStats,
+		private auth: AuthManager,
+		private plugins: PluginLoader,
+	) {}
+
+	static isEnabled(): boolean {
+		const enabled = process.env.ADMIN_ENABLED;
+		if (enabled === undefined || enabled === "") return process.env.NODE_ENV !== "production";
+
+		return enabled === "true";
+	}
+
+	static getPath(): string {
+		return process.env.ADMIN_PATH || "/";
+	}
+
+	// Routes under getPath(), workflows with the same name are not reachable when mounted at the root
+	static getRoutes(): string[] {
+		return ROUTES;
+	}
+
+	static authConfig(): AuthConfig | undefined {
+		const config: AuthConfig = process.env.ADMIN_AUTH
+			? (JSON.parse(process.env.ADMIN_AUTH) as AuthConfig)
+			: { type: "api_key", keys_env: "ADMIN_API_KEYS" };
+
+		return config.type === "none" ? undefined : config;
+	}
+
+	router(): express.Router {
+		const router = express.Router();
+		const config = AdminRouter.authConfig();
+		if (config === undefined) this.logger.log("Admin API is enabled without authentication (ADMIN_AUTH)");
+
+		router.use(ROUTES, (req: Request, res: Response, next: NextFunction) => {
+			this.auth
+				.authenticate(req, config)
+				.then(() => next())
+				.catch((e: unknown) => {
+					if (e instanceof AuthError && e.status === 401) res.setHeader("WWW-Authenticate", e.challenge);
+					sendProblem(res, this.problem(req, e instanceof AuthError ? httpError(e.status, e.message) : e));
+				});
+		});
+
+		router.get("/nodes", (req: Request, res: Response) => {
+			const nodes = [...this.nodeMap.nodes.getNodes().entries(), ...this.plugins.getNodes()];
+			res.status(200).json(nodes.map(([name, node]) => this.describeNode(name, node)));
+		});
+
+		// Nodes from nodes.config.json, with the error of the ones that failed to load
+		router.get("/nodes/plugins", (req: Request, res: Response) => {
+			res.status(200).json(this.plugins.list());
+		});
+
+		router.get("/workflows", (req: Request, res: Response) => {
+			const names = Object.keys(this.nodeMap.workflows).sort();
+			const described = names.map((name) => this.describeWorkflow(name));
+			res.status(200).json(described.filter((workflow) => workflow !== undefined));
+		});
+
+		router.get("/workflows/:name", (req: Request, res: Response) => {
+			const name = req.params.name as string;
+			const workflow = this.nodeMap.workflows[name] ? this.describeWorkflow(name) : undefined;
+			if (workflow === undefined) {
+				sendProblem(res, this.problem(req, httpError(404, `Workflow not found: ${name}`)));
+				return;
+			}
+
+			res.status(200).json({ ...workflow, runs: this.scheduler.getRuns(name, 20) });
+		});
+
+		router.get("/schedules", (req: Request, res: Response) => {
+			res.status(200).json(this.scheduler.getSchedules());
+		});
+
+		router.get("/schedules/runs", (req: Request, res: Response) => {
+			const workflow = typeof req.query.workflow === "string" ? req.query.workflow : undefined;
+			const limit = Number(req.query.limit) > 0 ? Number(req.query.limit) : undefined;
+			res.status(200).json(this.scheduler.getRuns(workflow, limit));
+		});
+
+		return router;
+	}
+
+	private problem(req: Request, error: unknown) {
+		return toProblem(error, { request_id: (req.query?.requestId as string) || uuid(), instance: req.originalUrl });
+	}
+
+	private describeNode(name: string, node: NodeWithSchemas) {
+		return {
+			name,
+			description: node.description,
+			contentType: node.contentType || "application/json",
+			flow: node.flow === true,
+			inputSchema: node.inputSchema ?? {},
+			outputSchema: node.outputSchema ?? {},
+			// Parameter map read by mcp-entry
+			schema: node.inputSchema?.properties ?? {},
+		};
+	}
+
+	private describeWorkflow(name: string) {
+		let definition: WorkflowDefinition;
+		try {
+			definition = JSON.parse(this.nodeMap.workflows[name].toJson()) as WorkflowDefinition;
+		} catch (e: unknown) {
+			this.logger.error(`Unable to describe workflow ${name}: ${(e as Error).message}`);
+			return undefined;
+		}
+
+		const http = definition.trigger?.http as { schema?: Schema } | undefined;
+		return {
+			path: name,
+			name: definition.name,
+			version: definition.version,
+			description: definition.description,
+			format: this.formatOf(name),
+			trigger: this.describeTrigger(definition.trigger || {}),
+			steps: this.stepTree(definition.steps || [], definition.nodes || {}),
+			schema: http?.schema?.properties ?? {},
+			stats: this.stats.get(name),
+		};
+	}
+
+	// Routing and scheduling settings only, auth settings can hold secrets (jwt_secret, inline keys)
+	private describeTrigger(trigger: WorkflowDefinition["trigger"]) {
+		const described: Record<string, Record<string, unknown>> = {};
+		for (const [type, value] of Object.entries(trigger)) {
+			const config = (value ?? {}) as HttpTriggerConfig & ScheduleTriggerConfig;
+			if (type === "schedule") {
+				described[type] = { cron: config.cron, timezone: config.timezone, enabled: config.enabled };
+				continue;
+			}
+
+			described[type] = {
+				method: config.method,
+				path: config.path,
+				accept: config.accept,
+				auth: this.auth.configFor(config)?.type ?? "none",
+			};
+		}
+
+		return described;
+	}
+
+	// TS workflows take precedence over files with the same name
+	private formatOf(name: string): string {
+		if (name in workflows) return "typescript";
+
+		const file = this.loader.resolve(name);
+		return (file && WorkflowLoader.formatOf(file)) || "unknown";
+	}
+
+	// Steps with the conditions of if-else style nodes expanded, recursively
+	private stepTree(steps: WorkflowStep[], nodes: Record<string, Record<string, unknown>>, depth = 0): StepTree[] {
+		return steps.map((step) => {
+			const tree: StepTree = { name: step.name, node: step.node, type: step.type };
+			if (step.timeout !== undefined) tree.timeout = step.timeout;
+
+			const conditions = nodes[step.name]?.conditions;
+			if (Array.isArray(conditions) && depth < 10) {
+				tree.conditions = (conditions as Condition[]).map((condition) => ({
+					type: condition.type || "if",
+					condition: condition.condition,
+					steps: this.stepTree(condition.steps || [], nodes, depth + 1),
+				}));
+			}
+
+			return tree;
+		});
+	}
+}
@@ -0,0 +1,50 @@
+import type { Context } from "@nanoservice-ts/shared";
+import pg from "pg";
+
+type CancellableContext = Context & { signal?: AbortSignal };
+
+/*
+ * Cancellation helpers for nodes. The trigger exposes the run's AbortSignal as ctx.signal;
+ * it is aborted when the workflow or step timeout passes or the client goes away.
+ */
+export function signalOf(ctx: Context): AbortSignal | undefined {
+	return (ctx as CancellableContext).signal;
+}
+
+// Not enumerable, so the context can still be serialized for remote nodes
+export function setSignal(ctx: Context, signal: AbortSignal): void {
+	Object.defineProperty(ctx, "signal", { value: signal, writable: true, configurable: true, enumerable: false });
+}
+
+// Runs `listener` once the signal aborts; the returned function removes it
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+	if (signal === undefined) return () => undefined;
+	if (signal.aborted) {
+		listener();
+		return () => undefined;
+	}
+
+	signal.addEventListener("abort", listener, { once: true });
+	return () => signal.removeEventListener("abort", listener);
+}
+
+/*
+ * Cancels the statement running on `client` when the signal aborts. PostgreSQL only stops a query
+ * through pg_cancel_backend, sent over a second connection with the same settings.
+ */
+export function cancelQueryOnAbort(client: pg.Client, config: pg.ClientConfig, signal: AbortSignal | undefined) {
+	return onAbort(signal, async () => {
+		const pid = (client as pg.Client & { processID?: number }).processID;
+		if (!pid) return;
+
+		const canceller = new pg.Client(config);
+		try {
+			await canceller.connect();
+			await canceller.query("SELECT pg_cancel_backend($1)", [pid]);
+		} catch {
+			// The query finished or the server is gone, nothing left to cancel
+		} finally {
+			await canceller.end().catch(() => undefined);
+		}
+	});
+}
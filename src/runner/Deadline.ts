@@ -0,0 +1,98 @@
+import type { Configuration } from "@nanoservice-ts/runner";
+import type { Context, ResponseContext } from "@nanoservice-ts/shared";
+import { onAbort, setSignal } from "./Cancellation";
+import { httpError } from "./Problem";
+import { wrapSteps } from "./StepInstrumentation";
+
+/**
+ * Time limits for one workflow run: the trigger's `timeout` (or WORKFLOW_TIMEOUT_MS) for the
+ * whole run and `timeout` on a step, both in milliseconds.
+ *
+ * Passing a limit aborts the signal exposed as ctx.signal and fails the run with a 504.
+ * Nodes that ignore the signal keep running in the background, but their result is discarded.
+ */
+export default class Deadline {
+	private controller = new AbortController();
+	private timer: NodeJS.Timeout | undefined;
+
+	constructor(private timeout?: number) {}
+
+	static timeoutOf(trigger: { timeout?: number } | undefined): number | undefined {
+		const timeout = Number(trigger?.timeout ?? process.env.WORKFLOW_TIMEOUT_MS ?? 0);
+		return Number.isFinite(timeout) && timeout > 0 ? timeout : undefined;
+	}
+
+	getSignal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	attach(ctx: Context): void {
+		setSignal(ctx, this.controller.signal);
+	}
+
+	abort(reason?: unknown): void {
+		if (!this.controller.signal.aborted) this.controller.abort(reason);
+	}
+
+	race<T>(run: Promise<T>): Promise<T> {
+		if (this.timeout === undefined) return run;
+
+		const expired = new Promise<never>((_, reject) => {
+			this.timer = setTimeout(() => {
+				const error = httpError(504, `Workflow timed out after ${this.timeout}ms`);
+				this.abort(error);
+				reject(error);
+			}, this.timeout);
+		});
+
+		return Promise.race([run, expired]).finally(() => clearTimeout(this.timer));
+	}
+
+	limitSteps(configuration: Configuration): void {
+		const timeouts = stepTimeouts(configuration.workflow);
+		if (timeouts.size === 0) return;
+
+		wrapSteps(configuration, (instance, original) => {
+			const timeout = timeouts.get(instance.name);
+			if (timeout === undefined) return original;
+
+			return async (ctx: Context, step?: unknown) => {
+				const controller = new AbortController();
+				// Aborting the run aborts the step running at the time
+				const removeForward = onAbort(this.controller.signal, () => controller.abort(this.controller.signal.reason));
+				let timer: NodeJS.Timeout | undefined;
+
+				const expired = new Promise<never>((_, reject) => {
+					timer = setTimeout(() => {
+						const error = httpError(504, `Step ${instance.name} timed out after ${timeout}ms`);
+						error.setName(instance.name);
+						controller.abort(error);
+						reject(error);
+					}, timeout);
+				});
+
+				setSignal(ctx, controller.signal);
+				try {
+					return await Promise.race<ResponseContext>([original(ctx, step), expired]);
+				} finally {
+					clearTimeout(timer);
+					removeForward();
+					setSignal(ctx, this.controller.signal);
+				}
+			};
+		});
+	}
+}
+
+// Steps can be nested inside conditions and flows, so the whole definition is searched
+function stepTimeouts(definition: unknown, timeouts: Map<string, number> = new Map()): Map<string, number> {
+	if (definition === null || typeof definition !== "object") return timeouts;
+
+	const candidate = definition as Record<string, unknown>;
+	if (typeof candidate.name === "string" && typeof candidate.node === "string" && Number(candidate.timeout) > 0) {
+		timeouts.set(candidate.name, Number(candidate.timeout));
+	}
+
+	for (const value of Object.values(candidate)) stepTimeouts(value, timeouts);
+	return timeouts;
+}
@@ -0,0 +1,38 @@
+import type { GlobalOptions } from "@nanoservice-ts/runner";
+import { TriggerBase } from "@nanoservice-ts/runner";
+import { v4 as uuid } from "uuid";
+import RuntimeConfiguration from "./RuntimeConfiguration";
+
+type WorkflowSource = GlobalOptions["workflows"][string];
+
+/**
+ * A workflow resolved for a single request, with its own configuration and runner.
+ *
+ * Triggers serve requests concurrently, so the workflow being run must not live on the
+ * trigger instance. Remote node calls run a workflow generated for the call: it is resolved
+ * from a copy of the options that only holds that workflow, the shared node map is not touched.
+ * The runner looks a workflow up in WORKFLOWS_PATH before the options, so that workflow is named
+ * by the server, never after anything in the request.
+ */
+export default class ExecutionPlan extends TriggerBase {
+	constructor(readonly workflow: string) {
+		super();
+		this.configuration = new RuntimeConfiguration();
+	}
+
+	static async forWorkflow(name: string, nodeMap: GlobalOptions): Promise<ExecutionPlan> {
+		const plan = new ExecutionPlan(name);
+		await plan.configuration.init(name, nodeMap);
+		return plan;
+	}
+
+	static async forRemoteNode(workflow: WorkflowSource, nodeMap: GlobalOptions): Promise<ExecutionPlan> {
+		const name = `remote-node-${uuid()}`;
+		return ExecutionPlan.forWorkflow(name, { nodes: nodeMap.nodes, workflows: { [name]: workflow } });
+	}
+
+	// Plans are run by the trigger that created them, they do not listen on their own
+	listen(): Promise<number> {
+		return Promise.resolve(0);
+	}
+}
@@ -0,0 +1,106 @@
+import fs from "node:fs";
+import path from "node:path";
+import Logger from "./Logger";
+
+type FileWatcherHandler = (filePath: string, exists: boolean) => void | Promise<void>;
+
+/**
+ * Watches a directory and calls the handler once per changed file.
+ *
+ * Editors usually emit several events for a single save (truncate, write, rename),
+ * so events are debounced per file before the handler runs.
+ *
+ * Where recursive watching is unavailable (Linux before Node 20) every subdirectory gets
+ * its own watcher, including the ones created later.
+ */
+export default class FileWatcher {
+	private watchers: Map<string, fs.FSWatcher> = new Map();
+	private timers: Map<string, NodeJS.Timeout> = new Map();
+	private recursive = true;
+	private logger = new Logger();
+
+	constructor(
+		private directory: string,
+		private handler: FileWatcherHandler,
+		private debounce = 150,
+	) {}
+
+	start(): boolean {
+		if (this.watchers.size > 0) return true;
+		if (!fs.existsSync(this.directory)) return false;
+
+		try {
+			const watcher = fs.watch(this.directory, { recursive: true }, (_, fileName) =>
+				this.onChange(this.directory, fileName),
+			);
+			this.watchers.set(this.directory, watcher);
+		} catch (e: unknown) {
+			if ((e as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") throw e;
+
+			this.recursive = false;
+			this.logger.log(`Recursive watching is unavailable, watching each directory under ${this.directory}`);
+			this.watchTree(this.directory);
+		}
+
+		return true;
+	}
+
+	stop(): void {
+		for (const timer of this.timers.values()) clearTimeout(timer);
+		this.timers.clear();
+		for (const watcher of this.watchers.values()) watcher.close();
+		this.watchers.clear();
+	}
+
+	private watchTree(directory: string) {
+		if (this.watchers.has(directory)) return;
+
+		try {
+			const watcher = fs.watch(directory, (_, fileName) => this.onChange(directory, fileName));
+			// The directory was removed, a new one with the same name gets a new watcher
+			watcher.on("error", () => this.unwatchTree(directory));
+			this.watchers.set(directory, watcher);
+
+			for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+				if (entry.isDirectory()) this.watchTree(path.join(directory, entry.name));
+			}
+		} catch (e: unknown) {
+			this.logger.error(`Unable to watch ${directory}: ${(e as Error).message}`);
+		}
+	}
+
+	private unwatchTree(directory: string) {
+		for (const [watched, watcher] of this.watchers) {
+			if (watched !== directory && !watched.startsWith(directory + path.sep)) continue;
+			watcher.close();
+			this.watchers.delete(watched);
+		}
+	}
+
+	private onChange(directory: string, fileName: string | Buffer | null) {
+		if (!fileName) return;
+		const filePath = path.join(directory, fileName.toString());
+
+		// Per directory watchers only see their own entries, new subdirectories are watched as they appear
+		if (!this.recursive && this.isDirectory(filePath)) this.watchTree(filePath);
+
+		const pending = this.timers.get(filePath);
+		if (pending) clearTimeout(pending);
+
+		this.timers.set(
+			filePath,
+			setTimeout(async () => {
+				this.timers.delete(filePath);
+				await this.handler(filePath, fs.existsSync(filePath));
+			}, this.debounce),
+		);
+	}
+
+	private isDirectory(filePath: string): boolean {
+		try {
+			return fs.statSync(filePath).isDirectory();
+		} catch {
+			return false;
+		}
+	}
+}
@@ -0,0 +1,336 @@
+import fs from "node:fs";
+import path from "node:path";
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import type { GlobalOptions, TriggerResponse } from "@nanoservice-ts/runner";
+import { TriggerBase } from "@nanoservice-ts/runner";
+import type { Context, RequestContext } from "@nanoservice-ts/shared";
+import { type Span, SpanKind, SpanStatusCode, metrics, trace } from "@opentelemetry/api";
+import type { Request } from "express";
+import { v4 as uuid } from "uuid";
+import Deadline from "./Deadline";
+import ExecutionPlan from "./ExecutionPlan";
+import Logger from "./Logger";
+import MessageDecode from "./MessageDecode";
+import { httpError, toProblem } from "./Problem";
+import RequestValidator from "./RequestValidator";
+import { extractTraceContext } from "./TraceContext";
+import { remoteNodeWorkflow } from "./Util";
+import type WorkflowStats from "./WorkflowStats";
+import WorkflowTelemetry from "./WorkflowTelemetry";
+import WorkflowVersions from "./WorkflowVersions";
+import AuthError from "./auth/AuthError";
+import AuthManager from "./auth/AuthManager";
+import type AuthConfig from "./types/AuthConfig";
+import type ErrorResponse from "./types/ErrorResponse";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type RuntimeWorkflow from "./types/RuntimeWorkflow";
+import type WorkflowRequest from "./types/WorkflowRequest";
+import type WorkflowResponse from "./types/WorkflowResponse";
+
+const PROTO_PATH = path.resolve(__dirname, "proto/workflow.proto");
+
+const GRPC_STATUS: Record<number, grpc.status> = {
+	400: grpc.status.INVALID_ARGUMENT,
+	401: grpc.status.UNAUTHENTICATED,
+	403: grpc.status.PERMISSION_DENIED,
+	404: grpc.status.NOT_FOUND,
+	405: grpc.status.UNIMPLEMENTED,
+	409: grpc.status.ABORTED,
+	429: grpc.status.RESOURCE_EXHAUSTED,
+	501: grpc.status.UNIMPLEMENTED,
+	503: grpc.status.UNAVAILABLE,
+	504: grpc.status.DEADLINE_EXCEEDED,
+};
+
+type WorkflowService = {
+	workflow: { WorkflowService: grpc.ServiceClientConstructor };
+};
+
+/**
+ * gRPC transport for the WorkflowRequest/WorkflowResponse envelope (proto/workflow.proto).
+ *
+ * `Name` selects the workflow and `Message` carries the encoded context, whose `request`
+ * becomes ctx.request and is validated like an HTTP request. Workflows need a `grpc` or
+ * `http` trigger, whose auth and timeout apply.
+ *
+ * Calls with `x-nanoservice-execute-node: true` metadata run the named node instead, from the
+ * `workflow` model in the message, under the same allowlist and auth as remote node calls over
+ * HTTP. Call metadata is exposed to the authenticators as request headers, and messages are
+ * only decoded once the caller is authorized.
+ */
+export default class GrpcTrigger extends TriggerBase {
+	private server = new grpc.Server();
+	private port: string | number = process.env.GRPC_PORT || 50051;
+	private coder = new MessageDecode();
+	private auth = new AuthManager();
+	private requestValidator = new RequestValidator();
+	private logger = new Logger();
+	protected tracer = trace.getTracer(
+		process.env.PROJECT_NAME || "trigger-grpc-workflow",
+		process.env.PROJECT_VERSION || "0.0.1",
+	);
+	private telemetry: WorkflowTelemetry;
+
+	constructor(
+		private nodeMap: GlobalOptions,
+		stats?: WorkflowStats,
+		private versions?: WorkflowVersions,
+	) {
+		super();
+		this.telemetry = new WorkflowTelemetry(this.tracer, "grpc", stats);
+	}
+
+	listen(): Promise<number> {
+		const initializer = this.startCounter();
+		const definition = protoLoader.loadSync(PROTO_PATH, { keepCase: true, defaults: true });
+		const proto = grpc.loadPackageDefinition(definition) as unknown as WorkflowService;
+
+		this.server.addService(proto.workflow.WorkflowService.service, {
+			ExecuteWorkflow: (
+				call: grpc.ServerUnaryCall<WorkflowRequest, WorkflowResponse>,
+				callback: grpc.sendUnaryData<WorkflowResponse>,
+			) => this.execute(call, callback),
+		});
+
+		return new Promise((done, reject) => {
+			this.server.bindAsync(`0.0.0.0:${this.port}`, this.credentials(), (error: Error | null, port: number) => {
+				if (error) return reject(error);
+
+				this.logger.log(`gRPC server is running at 0.0.0.0:${port}`);
+				done(this.endCounter(initializer));
+			});
+		});
+	}
+
+	close(): Promise<void> {
+		return new Promise((done) => this.server.tryShutdown(() => done()));
+	}
+
+	private credentials(): grpc.ServerCredentials {
+		const cert = process.env.GRPC_TLS_CERT_FILE;
+		const key = process.env.GRPC_TLS_KEY_FILE;
+		if (!cert || !key) return grpc.ServerCredentials.createInsecure();
+
+		return grpc.ServerCredentials.createSsl(null, [
+			{ cert_chain: fs.readFileSync(cert), private_key: fs.readFileSync(key) },
+		]);
+	}
+
+	private async execute(
+		call: grpc.ServerUnaryCall<WorkflowRequest, WorkflowResponse>,
+		callback: grpc.sendUnaryData<WorkflowResponse>,
+	) {
+		const id = uuid();
+		const request = call.request;
+		let workflowName = request.Name;
+		let remoteNodeExecution = false;
+		let workflowLabel = "unknown";
+		let status = 200;
+		// Resolved for this call only, concurrent calls never share it
+		let plan: ExecutionPlan | undefined;
+		const finish = this.telemetry.begin();
+
+		const defaultMeter = metrics.getMeter("default");
+		const workflow_runner_errors = defaultMeter.createCounter("workflow_errors", {
+			description: "Workflow runner errors",
+		});
+
+		const headers = this.headersOf(call.metadata);
+		const parentContext = extractTraceContext(headers);
+
+		await this.tracer.startActiveSpan(
+			`${request.Name}`,
+			{ kind: SpanKind.SERVER },
+			parentContext,
+			async (span: Span) => {
+				try {
+					const start = performance.now();
+					let message: Context | undefined;
+					// Authenticators read the credentials from the request headers
+					const authRequest = { headers, method: "POST", path: `/${request.Name}` } as unknown as Request;
+
+					if (headers["x-nanoservice-execute-node"] === "true") {
+						await this.authorize(authRequest, this.auth.remoteNodeConfig(), request.Name);
+
+						message = this.coder.requestDecode(request);
+						if ((message as unknown as RuntimeWorkflow).workflow === undefined)
+							throw httpError(400, "Remote node calls need a workflow model in the message");
+
+						const workflow = remoteNodeWorkflow(message as unknown as RuntimeWorkflow, request.Name);
+						plan = await ExecutionPlan.forRemoteNode(workflow, this.nodeMap);
+						workflowName = plan.workflow;
+						workflowLabel = request.Name;
+						remoteNodeExecution = true;
+					} else if (workflowName) {
+						workflowName = this.selectVersion(call, headers["accept-version"], span, workflowName);
+					}
+
+					if (plan === undefined && (!workflowName || this.nodeMap.workflows[workflowName] === undefined))
+						throw httpError(404, `Workflow not found: ${workflowName || "(empty)"}`);
+					if (!remoteNodeExecution) workflowLabel = WorkflowVersions.baseName(workflowName);
+
+					plan ??= await ExecutionPlan.forWorkflow(workflowName, this.nodeMap);
+					const { configuration } = plan;
+					let ctx: Context = plan.createContext(new Logger(configuration.name, workflowName, id), workflowName, id);
+
+					const trigger = configuration.trigger as Record<string, HttpTriggerConfig | undefined>;
+					const config = trigger.grpc || trigger.http;
+					// Workflows with only a schedule trigger are not exposed over gRPC
+					if (config === undefined) throw httpError(404, `Workflow not found: ${workflowName}`);
+
+					if (!remoteNodeExecution) {
+						await this.authorize(authRequest, this.auth.configFor(config));
+
+						message = this.coder.requestDecode(request);
+						if ((message as unknown as RuntimeWorkflow).workflow !== undefined)
+							throw httpError(400, "Remote node calls need the x-nanoservice-execute-node metadata");
+					}
+
+					ctx.logger.log(`Version: ${configuration.version}, Transport: gRPC`);
+
+					const requestContext = (message?.request || {}) as unknown as RequestContext;
+					ctx.request = {
+						method: config.method && config.method !== "*" ? config.method.toUpperCase() : "POST",
+						body: {},
+						query: {},
+						params: {},
+						...requestContext,
+						headers: { ...headers, ...(requestContext.headers || {}) },
+					} as unknown as RequestContext;
+
+					const violations = this.requestValidator.validate(ctx.request as unknown as Request, config);
+					if (violations.length > 0) {
+						throw httpError(400, "Invalid request", {
+							detail: "Request does not match the workflow schema",
+							violations,
+						});
+					}
+
+					const deadline = new Deadline(Deadline.timeoutOf(config));
+					deadline.attach(ctx);
+					deadline.limitSteps(configuration);
+					call.on("cancelled", () => deadline.abort(new Error("Client cancelled the call")));
+					this.telemetry.traceSteps(configuration, span, workflowLabel);
+
+					const response: TriggerResponse = await deadline.race(plan.run(ctx));
+					ctx = response.ctx;
+					const average = response.metrics;
+
+					const end = performance.now();
+					ctx.logger.log(`Completed in ${(end - start).toFixed(2)}ms`);
+
+					if (ctx.response.contentType === undefined || ctx.response.contentType === "")
+						ctx.response.contentType = "application/json";
+
+					span.setAttribute("success", true);
+					span.setAttribute("Content-Type", ctx.response.contentType);
+					span.setAttribute("workflow_request_id", `${ctx.id}`);
+					span.setAttribute("workflow_elapsed_time", `${end - start}`);
+					span.setAttribute("workflow_version", `${configuration.version}`);
+					span.setAttribute("workflow_name", `${configuration.name}`);
+					span.setAttribute("workflow_memory_avg_mb", `${average.memory.total}`);
+					span.setAttribute("workflow_memory_min_mb", `${average.memory.min}`);
+					span.setAttribute("workflow_memory_max_mb", `${average.memory.max}`);
+					span.setAttribute("workflow_cpu_percentage", `${average.cpu.average}`);
+					span.setAttribute("workflow_cpu_total", `${average.cpu.total}`);
+					span.setAttribute("workflow_cpu_usage", `${average.cpu.usage}`);
+					span.setAttribute("workflow_cpu_model", `${average.cpu.model}`);
+					span.setAttribute("rpc.system", "grpc");
+					span.setStatus({ code: SpanStatusCode.OK });
+
+					callback(null, this.coder.responseEncode(ctx.response.data, request.Encoding, request.Type));
+				} catch (e: unknown) {
+					span.setAttribute("success", false);
+					span.setAttribute("workflow_request_id", `${id}`);
+					span.recordException(e as Error);
+
+					const problem = toProblem(e, {
+						request_id: id,
+						instance: `grpc:${request.Name}`,
+						workflow: remoteNodeExecution ? undefined : workflowName,
+						definition: plan?.configuration.workflow,
+					});
+
+					workflow_runner_errors.add(1, {
+						env: process.env.NODE_ENV,
+						workflow_version: `${plan?.configuration.version || "unknown"}`,
+						workflow_name: `${plan?.configuration.name || "unknown"}`,
+						workflow_path: `${workflowName}`,
+						status: problem.status,
+					});
+					span.setAttribute("http_status", problem.status);
+					span.setStatus({ code: SpanStatusCode.ERROR, message: problem.detail });
+					status = problem.status;
+
+					if (problem.status >= 500) {
+						this.logger.error(`${workflowName}: ${problem.detail}`, `${(e as Error).stack?.replace(/\n/g, " ")}`);
+					} else {
+						this.logger.log(`${workflowName}: ${problem.status} ${problem.detail}`);
+					}
+
+					callback(this.toServiceError(problem), null);
+				} finally {
+					finish({
+						workflow_path: workflowLabel,
+						workflow_name: workflowLabel !== "unknown" ? plan?.configuration.name : undefined,
+						workflow_version: workflowLabel !== "unknown" ? plan?.configuration.version : undefined,
+						status,
+					});
+					span.end();
+				}
+			},
+		);
+	}
+
+	private async authorize(req: Request, config: AuthConfig | undefined, remoteNode?: string) {
+		try {
+			await this.auth.authenticate(req, config);
+			if (remoteNode !== undefined) this.auth.authorizeRemoteNode(remoteNode);
+		} catch (e: unknown) {
+			if (!(e instanceof AuthError)) throw e;
+			throw httpError(e.status, e.message);
+		}
+	}
+
+	// Node map key of the version asked for with the accept-version metadata, or of the default one
+	private selectVersion(
+		call: grpc.ServerUnaryCall<WorkflowRequest, WorkflowResponse>,
+		requested: string | undefined,
+		span: Span,
+		workflow: string,
+	): string {
+		const version = this.versions?.resolve(workflow, requested || undefined);
+		if (version === undefined) {
+			if (requested && this.versions?.has(workflow))
+				throw httpError(404, `Version ${requested} of workflow ${workflow} not found`);
+			return workflow;
+		}
+
+		const metadata = new grpc.Metadata();
+		metadata.set("x-workflow-version", version.version);
+		call.sendMetadata(metadata);
+		span.setAttribute("workflow_version", version.version);
+		return version.key;
+	}
+
+	private headersOf(metadata: grpc.Metadata): Record<string, string> {
+		const headers: Record<string, string> = {};
+		for (const [key, value] of Object.entries(metadata.getMap())) {
+			if (typeof value === "string") headers[key.toLowerCase()] = value;
+		}
+		return headers;
+	}
+
+	// The problem document travels in the trailers so clients get the same details as over HTTP
+	private toServiceError(problem: ErrorResponse): Partial<grpc.ServiceError> {
+		const metadata = new grpc.Metadata();
+		metadata.set("problem", JSON.stringify(problem));
+
+		return {
+			code: GRPC_STATUS[problem.status] ?? (problem.status >= 500 ? grpc.status.INTERNAL : grpc.status.INVALID_ARGUMENT),
+			details: problem.detail,
+			metadata,
+		};
+	}
+}
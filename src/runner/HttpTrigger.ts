@@ -1,23 +1,53 @@
-import { type Step, Workflow } from "@nanoservice-ts/helper";
-import type { TriggerOpts } from "@nanoservice-ts/helper/dist/types/TriggerOpts";
-import type { GlobalOptions, ParamsDictionary, TriggerResponse } from "@nanoservice-ts/runner";
+import path from "node:path";
+import type { GlobalOptions, TriggerResponse } from "@nanoservice-ts/runner";
 import { TriggerBase } from "@nanoservice-ts/runner";
 import { NodeMap } from "@nanoservice-ts/runner";
-import { DefaultLogger } from "@nanoservice-ts/runner";
-import { type Context, GlobalError, type RequestContext } from "@nanoservice-ts/shared";
-import { type Span, SpanStatusCode, metrics, trace } from "@opentelemetry/api";
+import type { Context, RequestContext } from "@nanoservice-ts/shared";
+import { type Span, SpanKind, SpanStatusCode, metrics, trace } from "@opentelemetry/api";
 import bodyParser from "body-parser";
 import cors from "cors";
-import express, { type Express, type Request, type Response } from "express";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
 import { v4 as uuid } from "uuid";
 import apps from "../AppRoutes";
 import nodes from "../Nodes";
 import workflows from "../Workflows";
+import AdminRouter from "./AdminRouter";
+import Deadline from "./Deadline";
+import ExecutionPlan from "./ExecutionPlan";
+import FileWatcher from "./FileWatcher";
+import Logger from "./Logger";
 import MessageDecode from "./MessageDecode";
-import { handleDynamicRoute, validateRoute } from "./Util";
+import OpenApi from "./OpenApi";
+import PluginLoader from "./PluginLoader";
+import { httpError, sendProblem, toProblem } from "./Problem";
+import ProgressStream from "./ProgressStream";
+import RequestValidator from "./RequestValidator";
+import ResponseCache from "./ResponseCache";
+import ResponseSerializer from "./ResponseSerializer";
+import RouteTable from "./RouteTable";
+import ScheduleTrigger from "./ScheduleTrigger";
+import { instrumentSteps } from "./StepInstrumentation";
+import { extractTraceContext } from "./TraceContext";
+import TrafficSplitter from "./TrafficSplitter";
+import { remoteNodeWorkflow, toHelperResponse } from "./Util";
+import WorkflowLoader from "./WorkflowLoader";
+import WorkflowStats from "./WorkflowStats";
+import WorkflowTelemetry from "./WorkflowTelemetry";
+import WorkflowVersions from "./WorkflowVersions";
+import AuthError from "./auth/AuthError";
+import AuthManager from "./auth/AuthManager";
+import IdempotencyManager from "./idempotency/IdempotencyManager";
+import JobManager from "./jobs/JobManager";
 import { metricsHandler } from "./metrics/opentelemetry_metrics";
-import NodeTypes from "./types/NodeTypes";
+import type AuthConfig from "./types/AuthConfig";
+import type AuthPrincipal from "./types/AuthPrincipal";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type Job from "./types/Job";
+import type Nodes from "./types/Nodes";
 import type RuntimeWorkflow from "./types/RuntimeWorkflow";
+import type WorkflowDefinition from "./types/WorkflowDefinition";
+import type WorkflowRequest from "./types/WorkflowRequest";
+import type Workflows from "./types/Workflows";
 
 export default class HttpTrigger extends TriggerBase {
 	private app: Express = express();
@@ -28,7 +58,24 @@ export default class HttpTrigger extends TriggerBase {
 		process.env.PROJECT_NAME || "trigger-http-workflow",
 		process.env.PROJECT_VERSION || "0.0.1",
 	);
-	private logger = new DefaultLogger();
+	private stats = new WorkflowStats();
+	private telemetry = new WorkflowTelemetry(this.tracer, "http", this.stats);
+	private logger = new Logger();
+	private watchers: FileWatcher[] = [];
+	private workflowLoader = new WorkflowLoader();
+	private requestValidator = new RequestValidator();
+	private auth = new AuthManager();
+	private jobs = new JobManager();
+	private idempotency = new IdempotencyManager();
+	private responseCache = new ResponseCache();
+	private serializer = new ResponseSerializer();
+	private coder = new MessageDecode();
+	// Reads nodes.config.json on startup, the nodes themselves are imported on first use
+	private plugins = PluginLoader.shared();
+	private scheduler = new ScheduleTrigger(this.nodeMap, this.stats);
+	private versions = new WorkflowVersions(this.nodeMap);
+	private splitter = new TrafficSplitter(this.nodeMap);
+	private routes = new RouteTable(this.nodeMap, () => this.reservedNames());
 
 	constructor() {
 		super();
@@ -38,22 +85,201 @@ export default class HttpTrigger extends TriggerBase {
 		this.loadWorkflows();
 	}
 
-	loadNodes() {
-		this.nodeMap.nodes = new NodeMap();
-		const nodeKeys = Object.keys(nodes);
+	loadNodes(registry: Nodes = nodes) {
+		const nodeMap = new NodeMap();
+		const nodeKeys = Object.keys(registry);
 		for (const key of nodeKeys) {
-			this.nodeMap.nodes.addNode(key, nodes[key]);
+			nodeMap.addNode(key, registry[key]);
 		}
+
+		// Assigned in one step so a request never sees a partially built map
+		this.nodeMap.nodes = nodeMap;
 	}
 
 	loadWorkflows() {
-		this.nodeMap.workflows = workflows;
+		const fileWorkflows: Workflows = {};
+		const { workflows: loaded, errors } = this.workflowLoader.loadAll();
+
+		for (const workflow of loaded) {
+			fileWorkflows[workflow.name] = toHelperResponse(workflow.definition);
+		}
+		for (const error of errors) {
+			this.logger.error(error.message);
+		}
+
+		this.nodeMap.workflows = { ...fileWorkflows, ...workflows };
+		this.scheduler.sync();
+		this.versions.sync();
+		this.splitter.sync();
+		this.routes.sync();
+		this.responseCache.clear();
+	}
+
+	/*
+	 * Hot reload mode. Changed workflow files and node modules are re-parsed and swapped
+	 * into the node map; requests already running keep the steps they resolved on start.
+	 */
+	watch() {
+		const workflowsWatcher = new FileWatcher(this.workflowLoader.getRoot(), (file, exists) =>
+			this.reloadWorkflow(file, exists),
+		);
+		if (workflowsWatcher.start()) this.watchers.push(workflowsWatcher);
+
+		const nodesWatcher = new FileWatcher(path.resolve(__dirname, "../nodes"), () => this.reloadNodes(), 300);
+		if (nodesWatcher.start()) this.watchers.push(nodesWatcher);
+
+		this.logger.log(`Hot reload enabled (${this.watchers.length} watchers)`);
+	}
+
+	unwatch() {
+		for (const watcher of this.watchers) watcher.stop();
+		this.watchers = [];
+	}
+
+	reloadWorkflow(file: string, exists: boolean) {
+		if (WorkflowLoader.formatOf(file) === undefined) return;
+		const name = WorkflowLoader.nameOf(file);
+
+		// TS workflows take precedence over files with the same name, as in loadWorkflows, and stay when the file goes
+		if (name in workflows) {
+			this.logger.log(`Workflow ${name} is defined in src/Workflows.ts, ignoring changes to ${path.basename(file)}`);
+			return;
+		}
+
+		// The same name may exist in another format with higher precedence
+		const source = this.workflowLoader.resolve(name);
+		if (exists && source !== file) return;
+
+		const next: Workflows = { ...this.nodeMap.workflows };
+		if (source === undefined) {
+			delete next[name];
+			this.nodeMap.workflows = next;
+			this.scheduler.sync();
+			this.versions.sync();
+			this.splitter.sync();
+			this.routes.sync();
+			this.responseCache.clear(name);
+			this.logger.log(`Workflow removed: ${name}`);
+			return;
+		}
+
+		try {
+			next[name] = toHelperResponse(this.workflowLoader.load(source).definition);
+			this.nodeMap.workflows = next;
+			this.scheduler.sync();
+			this.versions.sync();
+			this.splitter.sync();
+			this.routes.sync();
+			this.responseCache.clear(name);
+			this.logger.log(`Workflow reloaded: ${name} (${path.relative(this.workflowLoader.getRoot(), source)})`);
+		} catch (e: unknown) {
+			// Keep serving the last version that parsed
+			this.logger.error(`Unable to reload workflow ${name}: ${(e as Error).message}`);
+		}
+	}
+
+	async reloadNodes() {
+		const nodesModule = require.resolve("../Nodes");
+		const nodesDirectory = path.resolve(__dirname, "../nodes");
+		const previous = Object.keys(require.cache).filter(
+			(key) => key === nodesModule || key.startsWith(nodesDirectory + path.sep),
+		);
+		const cache = previous.map((key) => [key, require.cache[key]] as const);
+
+		for (const key of previous) delete require.cache[key];
+
+		try {
+			const registry: Nodes = (await import("../Nodes")).default;
+			this.loadNodes(registry);
+			this.logger.log(`Nodes reloaded: ${Object.keys(registry).length}`);
+		} catch (e: unknown) {
+			// Restore the modules that were working so later requires do not pick up the broken ones
+			for (const [key, module] of cache) require.cache[key] = module;
+			this.logger.error(`Unable to reload nodes: ${(e as Error).message}`, `${(e as Error).stack?.replace(/\n/g, " ")}`);
+		}
+	}
+
+	private async authorize(req: Request, res: Response, config: AuthConfig | undefined, remoteNode?: string) {
+		try {
+			const principal = await this.auth.authenticate(req, config);
+			if (remoteNode !== undefined) this.auth.authorizeRemoteNode(remoteNode);
+
+			// Exposed to the nodes as ctx.request.auth
+			if (principal) (req as Request & { auth?: AuthPrincipal }).auth = principal;
+		} catch (e: unknown) {
+			if (!(e instanceof AuthError)) throw e;
+
+			if (e.status === 401) res.setHeader("WWW-Authenticate", e.challenge);
+			throw httpError(e.status, e.message);
+		}
+	}
+
+	// Node map key of the version asked for with Accept-Version or a /v2 prefix, or of the default one
+	private selectVersion(req: Request, res: Response, span: Span, workflow: string | undefined): string | undefined {
+		const requested = this.versions.requested(req, workflow);
+		if (requested.workflow === undefined) return undefined;
+		if (requested.workflow !== workflow) span.updateName(requested.workflow);
+
+		const version = this.versions.resolve(requested.workflow, requested.version);
+		if (version === undefined) {
+			if (requested.version !== undefined && this.versions.has(requested.workflow))
+				throw httpError(404, `Version ${requested.version} of workflow ${requested.workflow} not found`);
+			return requested.workflow;
+		}
+
+		res.vary("Accept-Version");
+		res.setHeader("X-Workflow-Version", version.version);
+		span.setAttribute("workflow_version", version.version);
+		return version.key;
+	}
+
+	// Auth of a loaded workflow, for the routes reading its runs after the request that started them
+	private authConfigOf(workflow: string): AuthConfig | undefined {
+		const helper = this.nodeMap.workflows[workflow];
+		if (helper === undefined) return undefined;
+
+		const trigger = (JSON.parse(helper.toJson()) as WorkflowDefinition).trigger?.http;
+		return trigger ? this.auth.configFor(trigger as HttpTriggerConfig) : undefined;
+	}
+
+	// First path segment of the built-in routes, matched before the workflows
+	private reservedNames(): string[] {
+		const paths = ["/health-check", "/metrics", this.jobs.getPath()];
+		if (OpenApi.isEnabled()) paths.push("/openapi.json", OpenApi.getDocsPath());
+		if (AdminRouter.isEnabled()) {
+			const admin = AdminRouter.getPath();
+			paths.push(...(firstSegment(admin) === undefined ? AdminRouter.getRoutes() : [admin]));
+		}
+
+		return paths.map(firstSegment).filter((name) => name !== undefined);
 	}
 
 	getApp(): Express {
 		return this.app;
 	}
 
+	// Shared with the triggers running alongside this one, so they see reloaded workflows and nodes
+	getNodeMap(): GlobalOptions {
+		return this.nodeMap;
+	}
+
+	getScheduler(): ScheduleTrigger {
+		return this.scheduler;
+	}
+
+	getStats(): WorkflowStats {
+		return this.stats;
+	}
+
+	getVersions(): WorkflowVersions {
+		return this.versions;
+	}
+
+	// e.g. getIdempotency().setStore(myStore) to keep Idempotency-Key responses elsewhere
+	getIdempotency(): IdempotencyManager {
+		return this.idempotency;
+	}
+
 	listen(): Promise<number> {
 		return new Promise((done) => {
 			this.app.use(express.static("public"));
@@ -80,195 +306,321 @@ export default class HttpTrigger extends TriggerBase {
 			 */
 			this.app.use("/", apps);
 
+			this.app.use(this.jobs.getPath(), this.jobs.router(this.auth, (workflow) => this.authConfigOf(workflow)));
+
+			if (OpenApi.isEnabled()) this.app.use("/", new OpenApi(this.nodeMap, this.auth).router());
+
+			if (AdminRouter.isEnabled()) {
+				const admin = new AdminRouter(
+					this.nodeMap,
+					this.workflowLoader,
+					this.scheduler,
+					this.stats,
+					this.auth,
+					this.plugins,
+				);
+				this.app.use(AdminRouter.getPath(), admin.router());
+			}
+
 			this.app.use(["/:workflow", "/"], async (req: Request, res: Response): Promise<void> => {
 				const id: string = (req.query?.requestId as string) || (uuid() as string);
 				req.query.requestId = undefined;
 				let workflowNameInPath: string = req.params.workflow;
 
-				let remoteNodeExecution = false;
-				let runtimeWorkflow: RuntimeWorkflow | undefined;
-				if (req.headers["x-nanoservice-execute-node"] === "true" && req.method.toLowerCase() === "post") {
-					remoteNodeExecution = true;
-					const coder = new MessageDecode();
-					const messageContext: Context = coder.requestDecode(req.body); // Collecting the context from the body
-					runtimeWorkflow = messageContext as unknown as RuntimeWorkflow;
-				}
+				let remoteNodeExecution =
+					req.headers["x-nanoservice-execute-node"] === "true" && req.method.toLowerCase() === "post";
+				let job: Job | undefined;
+				let stream: ProgressStream | undefined;
+				// Bounded label for the request metrics, remote node runs use a generated workflow name
+				let workflowLabel = "unknown";
+				let variant: string | undefined;
+				// Remote node calls answered in the envelope format they were sent in
+				let envelope: WorkflowRequest | undefined;
+				// Resolved for this request only, concurrent requests never share it
+				let plan: ExecutionPlan | undefined;
+				let failedStatus: number | undefined;
+				const finish = this.telemetry.begin();
 
 				const defaultMeter = metrics.getMeter("default");
 				const workflow_runner_errors = defaultMeter.createCounter("workflow_errors", {
 					description: "Workflow runner errors",
 				});
-				const workflow_execution = defaultMeter.createCounter("workflow", {
-					description: "Workflow requests",
-				});
 
-				await this.tracer.startActiveSpan(`${workflowNameInPath}`, async (span: Span) => {
-					try {
-						const start = performance.now();
-						if (remoteNodeExecution && runtimeWorkflow !== undefined) {
-							const workflowModel = runtimeWorkflow.workflow;
-							const node_type = (workflowModel.steps[0] as unknown as ParamsDictionary).type;
-							let set_node_type: NodeTypes = NodeTypes.MODULE;
-							switch (node_type) {
-								case "runtime.python3":
-									set_node_type = NodeTypes.PYTHON3;
-									break;
-								case "local":
-									set_node_type = NodeTypes.LOCAL;
-									break;
-								default:
-									set_node_type = NodeTypes.MODULE;
-									break;
+				const parentContext = extractTraceContext(req.headers);
+				await this.tracer.startActiveSpan(
+					`${workflowNameInPath}`,
+					{ kind: SpanKind.SERVER },
+					parentContext,
+					async (span: Span) => {
+						try {
+							const start = performance.now();
+							if (remoteNodeExecution) {
+								let remoteNodeName = workflowNameInPath + req.path;
+								if (remoteNodeName.substring(remoteNodeName.length - 1) === "/") {
+									remoteNodeName = remoteNodeName.substring(0, remoteNodeName.length - 1);
+								}
+
+								await this.authorize(req, res, this.auth.remoteNodeConfig(), remoteNodeName);
+
+								// Collecting the context from the body, only once the caller may run the node
+								const messageContext: Context = this.coder.requestDecode(req.body);
+								if (MessageDecode.envelopesResponse(req.body)) envelope = req.body;
+								const runtimeWorkflow = messageContext as unknown as RuntimeWorkflow;
+
+								const workflow = remoteNodeWorkflow(runtimeWorkflow, remoteNodeName);
+								plan = await ExecutionPlan.forRemoteNode(workflow, this.nodeMap);
+								workflowNameInPath = plan.workflow;
+								workflowLabel = remoteNodeName;
+								remoteNodeExecution = true;
+							} else {
+								workflowNameInPath = this.selectVersion(req, res, span, workflowNameInPath) as string;
 							}
 
-							const trigger = Object.keys(workflowModel.trigger)[0];
-							const trigger_config =
-								((workflowModel.trigger as unknown as ParamsDictionary)[trigger] as unknown as TriggerOpts) || {};
+							if (
+								plan === undefined &&
+								(workflowNameInPath === undefined || this.nodeMap.workflows[workflowNameInPath] === undefined)
+							)
+								throw httpError(404, `Workflow not found: ${workflowNameInPath ?? "/"}`);
+							if (!remoteNodeExecution) workflowLabel = WorkflowVersions.baseName(workflowNameInPath);
+
+							// Canary traffic runs a variant, reported under the workflow it was requested as
+							const requestedWorkflow = workflowNameInPath;
+							const assignment = remoteNodeExecution ? undefined : this.splitter.assign(req, workflowNameInPath);
+							if (assignment !== undefined) {
+								workflowNameInPath = assignment.workflow;
+								variant = assignment.variant;
+								res.setHeader("X-Workflow-Variant", variant);
+								span.setAttribute("workflow_variant", variant);
+							}
 
-							let remoteNodeName = workflowNameInPath + req.path;
-							if (remoteNodeName.substring(remoteNodeName.length - 1) === "/") {
-								remoteNodeName = remoteNodeName.substring(0, remoteNodeName.length - 1);
+							plan ??= await ExecutionPlan.forWorkflow(workflowNameInPath, this.nodeMap);
+							const { configuration } = plan;
+							let ctx: Context = plan.createContext(
+								new Logger(configuration.name, workflowNameInPath, id),
+								workflowNameInPath,
+								id,
+							);
+
+							// Workflows with only a schedule trigger are not exposed over HTTP
+							if (configuration.trigger.http === undefined)
+								throw httpError(404, `Workflow not found: ${workflowNameInPath}`);
+
+							ctx.logger.log(`Version: ${configuration.version}, Method: ${req.method}`);
+
+							const { method, path } = configuration.trigger.http;
+							if (method && method !== "*" && req.method.toLowerCase() !== method.toLowerCase()) {
+								res.setHeader("Allow", method.toUpperCase());
+								throw httpError(405, `Method ${req.method} is not allowed, use ${method.toUpperCase()}`);
 							}
 
-							const step: Step = Workflow({
-								name: `Remote Node: ${remoteNodeName}`,
-								version: "1.0.0",
-								description: "Remote Node",
-							})
-								.addTrigger((trigger as unknown as "http") || "grpc", trigger_config)
-								.addStep({
-									name: "node",
-									node: remoteNodeName,
-									type: set_node_type,
-									inputs: ((workflowModel.nodes as unknown as ParamsDictionary).node as unknown as ParamsDictionary)
-										.inputs,
-								});
+							const params = path ? this.routes.match(workflowNameInPath, path, req.path) : undefined;
+							if (params === undefined) throw httpError(404, `No route matches ${req.path}`);
+							req.params = params as Request["params"];
 
-							this.nodeMap.workflows[id] = step;
-							workflowNameInPath = id;
-							remoteNodeExecution = true;
-						}
+							if (!remoteNodeExecution) {
+								await this.authorize(
+									req,
+									res,
+									this.auth.configFor(configuration.trigger.http as HttpTriggerConfig),
+								);
+							}
 
-						await this.configuration.init(workflowNameInPath, this.nodeMap);
-						let ctx: Context = this.createContext(undefined, workflowNameInPath || req.params.workflow, id);
-						req.params = handleDynamicRoute(this.configuration.trigger.http.path, req);
-
-						ctx.logger.log(`Version: ${this.configuration.version}, Method: ${req.method}`);
-
-						const { method, path } = this.configuration.trigger.http;
-						if (method && method !== "*" && req.method.toLowerCase() !== method.toLowerCase())
-							throw new Error("Invalid HTTP method");
-						if (!validateRoute(path, req.path)) throw new Error("Invalid HTTP path");
-
-						ctx.request = req as unknown as RequestContext;
-						const response: TriggerResponse = await this.run(ctx);
-						ctx = response.ctx;
-						const average = response.metrics;
-
-						const end = performance.now();
-						ctx.logger.log(`Completed in ${(end - start).toFixed(2)}ms`);
-
-						if (ctx.response.contentType === undefined || ctx.response.contentType === "")
-							ctx.response.contentType = "application/json";
-
-						span.setAttribute("success", true);
-						span.setAttribute("Content-Type", ctx.response.contentType);
-						span.setAttribute("workflow_request_id", `${ctx.id}`);
-						span.setAttribute("workflow_elapsed_time", `${end - start}`);
-						span.setAttribute("workflow_version", `${this.configuration.version}`);
-						span.setAttribute("workflow_name", `${this.configuration.name}`);
-						span.setAttribute("workflow_memory_avg_mb", `${average.memory.total}`);
-						span.setAttribute("workflow_memory_min_mb", `${average.memory.min}`);
-						span.setAttribute("workflow_memory_max_mb", `${average.memory.max}`);
-						span.setAttribute("workflow_cpu_percentage", `${average.cpu.average}`);
-						span.setAttribute("workflow_cpu_total", `${average.cpu.total}`);
-						span.setAttribute("workflow_cpu_usage", `${average.cpu.usage}`);
-						span.setAttribute("workflow_cpu_model", `${average.cpu.model}`);
-						span.setStatus({ code: SpanStatusCode.OK });
-
-						res.setHeader("Content-Type", ctx.response.contentType);
-						res.status(200).send(ctx.response.data);
-					} catch (e: unknown) {
-						span.setAttribute("success", false);
-						span.setAttribute("workflow_request_id", `${id}`);
-						span.recordException(e as Error);
-
-						workflow_execution.add(0, {
-							env: process.env.NODE_ENV,
-							workflow_version: `${this.configuration?.version || "unknown"}`,
-							workflow_name: `${this.configuration?.name || "unknown"}`,
-							workflow_path: `${workflowNameInPath}`,
-						});
-
-						if (e instanceof GlobalError) {
-							const error_context = e as GlobalError;
-
-							if (error_context.context.message === "{}" && error_context.context.json instanceof DOMException) {
-								workflow_runner_errors.add(1, {
-									env: process.env.NODE_ENV,
-									workflow_version: `${this.configuration?.version || "unknown"}`,
-									workflow_name: `${this.configuration?.name || "unknown"}`,
-									workflow_path: `${workflowNameInPath}`,
-								});
-								span.setStatus({
-									code: SpanStatusCode.ERROR,
-									message: (error_context.context.json as Error).toString(),
-								});
-								res.status(500).json({
-									origin: error_context.context.name,
-									error: (error_context.context.json as Error).toString(),
+							const violations = this.requestValidator.validate(
+								req,
+								configuration.trigger.http as HttpTriggerConfig,
+							);
+							if (violations.length > 0) {
+								throw httpError(400, "Invalid request", {
+									detail: "Request does not match the workflow schema",
+									violations,
 								});
+							}
 
-								this.logger.error(`${(error_context.context.json as Error).toString()}`);
-							} else {
-								if (error_context.context.code === undefined) error_context.setCode(500);
-								const code = error_context.context.code as number;
-
-								if (error_context.hasJson()) {
-									workflow_runner_errors.add(1, {
-										env: process.env.NODE_ENV,
-										workflow_version: `${this.configuration?.version || "unknown"}`,
-										workflow_name: `${this.configuration?.name || "unknown"}`,
-										workflow_path: `${workflowNameInPath}`,
-									});
-									span.setStatus({ code: SpanStatusCode.ERROR, message: JSON.stringify(error_context.context.json) });
-									this.logger.error(`${JSON.stringify(error_context.context.json)}`);
-									res.status(code).json(error_context.context.json);
-								} else {
-									workflow_runner_errors.add(1, {
-										env: process.env.NODE_ENV,
-										workflow_version: `${this.configuration?.version || "unknown"}`,
-										workflow_name: `${this.configuration?.name || "unknown"}`,
-										workflow_path: `${workflowNameInPath}`,
-									});
-									span.setStatus({ code: SpanStatusCode.ERROR, message: error_context.message });
-									this.logger.error(`${error_context.message}`, error_context.stack?.replace(/\n/g, " "));
-									res.status(code).json({ error: error_context.message });
+							ctx.request = req as unknown as RequestContext;
+
+							const format = remoteNodeExecution
+								? undefined
+								: this.serializer.negotiate(req, configuration.trigger.http as HttpTriggerConfig);
+							if (!remoteNodeExecution) res.vary("Accept");
+							if (format !== undefined) {
+								this.serializer.checkOutput(format, configuration.steps[configuration.steps.length - 1]);
+							}
+
+							// Streams are not stored, a retried stream runs again
+							const idempotencyKey =
+								remoteNodeExecution || ProgressStream.isRequested(req) ? undefined : IdempotencyManager.keyOf(req);
+							if (
+								idempotencyKey !== undefined &&
+								// Keyed on the requested workflow, a retry may be assigned another variant
+								(await this.idempotency.handle(req, res, requestedWorkflow, idempotencyKey))
+							) {
+								span.setAttribute("idempotent_replay", true);
+								return;
+							}
+
+							const cacheConfig = ResponseCache.configOf(configuration.trigger.http as HttpTriggerConfig);
+							const cacheKey =
+								cacheConfig && !remoteNodeExecution && !JobManager.isRequested(req) && !ProgressStream.isRequested(req)
+									? this.responseCache.keyOf(req, workflowNameInPath, cacheConfig, format)
+									: undefined;
+							if (cacheKey !== undefined) {
+								const cached = this.responseCache.lookup(cacheKey, workflowNameInPath);
+								span.setAttribute("cache_hit", cached !== undefined);
+								if (cached) {
+									this.responseCache.send(req, res, cached);
+									return;
 								}
 							}
-						} else {
+
+							const deadline = new Deadline(
+								!remoteNodeExecution && JobManager.isRequested(req)
+									? JobManager.timeout()
+									: Deadline.timeoutOf(configuration.trigger.http as HttpTriggerConfig),
+							);
+							deadline.attach(ctx);
+							deadline.limitSteps(configuration);
+							this.telemetry.traceSteps(configuration, span, workflowLabel);
+							res.on("close", () => {
+								if (!res.writableFinished) deadline.abort(new Error("Client closed the request"));
+							});
+
+							if (!remoteNodeExecution && JobManager.isRequested(req)) {
+								job = await this.jobs.create(id, workflowNameInPath, (req as Request & { auth?: AuthPrincipal }).auth);
+								instrumentSteps(configuration, this.jobs.onStep(job.id));
+								this.jobs.accepted(res, job);
+							} else if (!remoteNodeExecution && ProgressStream.isRequested(req)) {
+								stream = new ProgressStream(res, id);
+								instrumentSteps(configuration, stream.onStep());
+								stream.open();
+							}
+
+							const response: TriggerResponse = await deadline.race(plan.run(ctx));
+							ctx = response.ctx;
+							const average = response.metrics;
+
+							const end = performance.now();
+							ctx.logger.log(`Completed in ${(end - start).toFixed(2)}ms`);
+
+							if (ctx.response.contentType === undefined || ctx.response.contentType === "")
+								ctx.response.contentType = "application/json";
+
+							span.setAttribute("success", true);
+							span.setAttribute("Content-Type", ctx.response.contentType);
+							span.setAttribute("workflow_request_id", `${ctx.id}`);
+							span.setAttribute("workflow_elapsed_time", `${end - start}`);
+							span.setAttribute("workflow_version", `${configuration.version}`);
+							span.setAttribute("workflow_name", `${configuration.name}`);
+							span.setAttribute("workflow_memory_avg_mb", `${average.memory.total}`);
+							span.setAttribute("workflow_memory_min_mb", `${average.memory.min}`);
+							span.setAttribute("workflow_memory_max_mb", `${average.memory.max}`);
+							span.setAttribute("workflow_cpu_percentage", `${average.cpu.average}`);
+							span.setAttribute("workflow_cpu_total", `${average.cpu.total}`);
+							span.setAttribute("workflow_cpu_usage", `${average.cpu.usage}`);
+							span.setAttribute("workflow_cpu_model", `${average.cpu.model}`);
+							span.setStatus({ code: SpanStatusCode.OK });
+
+							// Progress streams send JSON events, jobs keep the negotiated format for the result
+							let disposition: string | undefined;
+							if (format !== undefined && !stream) {
+								const serialized = await this.serializer.serialize(format, ctx.response.data);
+								ctx.response.contentType = serialized.contentType;
+								ctx.response.data = serialized.body;
+								disposition = `attachment; filename="${workflowLabel}.${format}"`;
+							}
+
+							if (job) {
+								await this.jobs.complete(job.id, ctx.response.contentType, ctx.response.data, disposition);
+								return;
+							}
+							if (stream) {
+								stream.result(ctx.response.contentType, ctx.response.data);
+								return;
+							}
+							if (envelope !== undefined) {
+								ctx.response.data = this.coder.responseEncode(ctx.response.data, envelope.Encoding, envelope.Type);
+								ctx.response.contentType = "application/json";
+							}
+							if (disposition !== undefined) res.setHeader("Content-Disposition", disposition);
+							if (cacheConfig && cacheKey !== undefined) {
+								const entry = this.responseCache.store(
+									cacheKey,
+									req,
+									ctx.response.contentType,
+									ctx.response.data,
+									cacheConfig,
+									disposition,
+								);
+								this.responseCache.send(req, res, entry);
+								return;
+							}
+
+							res.setHeader("Content-Type", ctx.response.contentType);
+							res.status(200).send(ctx.response.data);
+						} catch (e: unknown) {
+							span.setAttribute("success", false);
+							span.setAttribute("workflow_request_id", `${id}`);
+							span.recordException(e as Error);
+
+							const problem = toProblem(e, {
+								request_id: id,
+								instance: req.originalUrl,
+								workflow: remoteNodeExecution ? undefined : workflowNameInPath,
+								definition: plan?.configuration.workflow,
+							});
+
 							workflow_runner_errors.add(1, {
 								env: process.env.NODE_ENV,
-								workflow_version: `${this.configuration?.version || "unknown"}`,
-								workflow_name: `${this.configuration?.name || "unknown"}`,
+								workflow_version: `${plan?.configuration.version || "unknown"}`,
+								workflow_name: `${plan?.configuration.name || "unknown"}`,
 								workflow_path: `${workflowNameInPath}`,
+								status: problem.status,
 							});
-							span.setStatus({ code: SpanStatusCode.ERROR, message: (e as Error).message });
-							this.logger.error(
-								`${workflowNameInPath}: ${(e as Error).message}`,
-								`${(e as Error).stack?.replace(/\n/g, " ")}`,
-							);
-							res.status(500).json({ error: (e as Error).message });
-						}
-					} finally {
-						if (remoteNodeExecution) {
-							delete this.nodeMap.workflows[id];
+							span.setAttribute("http_status", problem.status);
+							span.setStatus({ code: SpanStatusCode.ERROR, message: problem.detail });
+							failedStatus = problem.status;
+
+							if (problem.status >= 500) {
+								this.logger.error(
+									`${workflowNameInPath}: ${problem.detail}`,
+									`${(e as Error).stack?.replace(/\n/g, " ")}`,
+								);
+							} else {
+								this.logger.log(`${workflowNameInPath}: ${problem.status} ${problem.detail}`);
+							}
+
+							if (job) {
+								await this.jobs.fail(job.id, problem);
+							} else if (stream) {
+								stream.error(problem);
+							} else {
+								sendProblem(res, problem);
+							}
+						} finally {
+							finish({
+								workflow_path: workflowLabel,
+								workflow_name: workflowLabel !== "unknown" ? plan?.configuration.name : undefined,
+								workflow_version: workflowLabel !== "unknown" ? plan?.configuration.version : undefined,
+								status: failedStatus ?? res.statusCode,
+								variant,
+							});
+							span.end();
 						}
-						span.end();
-					}
+					},
+				);
+			});
+
+			// Errors raised by Express middleware, e.g. a malformed JSON body
+			this.app.use((err: Error & { status?: number }, req: Request, res: Response, _next: NextFunction) => {
+				const problem = toProblem(httpError(err.status ?? 500, err.message), {
+					request_id: (req.query?.requestId as string) || uuid(),
+					instance: req.originalUrl,
 				});
+				sendProblem(res, problem);
 			});
 
+			if (process.env.HOT_RELOAD === "true") this.watch();
+			if (process.env.SCHEDULE_ENABLED !== "false") this.scheduler.listen();
+
 			this.app.listen(this.port, () => {
 				this.logger.log(`Server is running at http://localhost:${this.port}`);
 				done(this.endCounter(this.initializer));
@@ -276,3 +628,7 @@ export default class HttpTrigger extends TriggerBase {
 		});
 	}
 }
+
+function firstSegment(path: string): string | undefined {
+	return path.split("/").filter((part) => part !== "")[0];
+}
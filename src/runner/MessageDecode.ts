@@ -1,57 +1,139 @@
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from "node:zlib";
+import { decode as decodeMsgpack, encode as encodeMsgpack } from "@msgpack/msgpack";
 import type { JsonLikeObject } from "@nanoservice-ts/runner";
 import type { Context } from "@nanoservice-ts/shared";
+import { decode as decodeCbor, encode as encodeCbor } from "cbor-x";
+import Logger from "./Logger";
+import { httpError } from "./Problem";
 import type WorkflowRequest from "./types/WorkflowRequest";
 import type WorkflowResponse from "./types/WorkflowResponse";
 
+const ENCODINGS = ["BASE64", "STRING", "GZIP", "BROTLI"];
+const TYPES = ["JSON", "MSGPACK", "CBOR"];
+// Types carried as text, the others are binary and need a binary safe encoding
+const TEXT_TYPES = ["JSON"];
+
+/**
+ * Envelope used by remote node calls and the gRPC trigger: `Message` holds the payload
+ * serialized as `Type` (JSON, MSGPACK or CBOR) and then encoded as `Encoding`:
+ *
+ * - BASE64 and STRING carry the serialized payload as is, STRING only for JSON
+ * - GZIP and BROTLI carry it compressed, in base64
+ *
+ * Unknown or unsupported combinations are rejected with a 415. Compressed messages are
+ * inflated up to MESSAGE_MAX_DECODED_BYTES, larger ones are rejected with a 413.
+ */
 export default class MessageDecode {
+	private logger = new Logger();
+
+	// Same as the JSON body limit by default, a compressed message never decodes to more than a plain one
+	constructor(private maxDecodedBytes = Number(process.env.MESSAGE_MAX_DECODED_BYTES || 150 * 1024 * 1024)) {}
+
+	// Plain JSON requests get the plain response over HTTP, as the SDKs expect, the others an envelope
+	static envelopesResponse(request: WorkflowRequest): boolean {
+		return request.Type !== "JSON" || (request.Encoding !== "BASE64" && request.Encoding !== "STRING");
+	}
+
 	requestDecode(request: WorkflowRequest): Context {
-		let message: Context = <Context>{};
+		return this.decode(request.Message, request.Encoding, request.Type);
+	}
 
-		switch (request.Encoding) {
-			case "BASE64": {
-				const messageStr = Buffer.from(request.Message, "base64").toString("utf-8");
-				message = this.decodeType(messageStr, request.Type);
-				break;
-			}
-			case "STRING": {
-				message = this.decodeType(request.Message, request.Type);
-				break;
-			}
+	responseDecode(response: WorkflowResponse): JsonLikeObject {
+		this.logger.debug(
+			`Decoding response: ${response.Encoding} ${response.Type}, ${response.Message?.length ?? 0} characters`,
+		);
+
+		return this.decode(response.Message, response.Encoding, response.Type) as unknown as JsonLikeObject;
+	}
+
+	responseEncode(data: unknown, encoding: string, type: string): WorkflowResponse {
+		this.check(encoding, type);
+		const payload = this.encodeType(data, type);
+
+		switch (encoding) {
+			case "BASE64":
+				return { Encoding: encoding, Type: type, Message: payload.toString("base64") };
+			case "STRING":
+				return { Encoding: encoding, Type: type, Message: payload.toString("utf-8") };
+			case "GZIP":
+				return { Encoding: encoding, Type: type, Message: gzipSync(payload).toString("base64") };
+			case "BROTLI":
+				return { Encoding: encoding, Type: type, Message: brotliCompressSync(payload).toString("base64") };
 			default:
-				throw new Error(`Unsupported encoding: ${request.Encoding}`);
+				throw httpError(415, `Unsupported encoding: ${encoding}`);
 		}
-
-		return message;
 	}
 
-	responseDecode(response: WorkflowResponse): JsonLikeObject {
-		let message: JsonLikeObject = {};
-		console.log("response", response);
-
-		switch (response.Encoding) {
-			case "BASE64": {
-				const messageStr = Buffer.from(response.Message, "base64").toString("utf-8");
-				message = this.decodeType(messageStr, response.Type) as unknown as JsonLikeObject;
-				break;
-			}
-			case "STRING": {
-				message = this.decodeType(response.Message, response.Type) as unknown as JsonLikeObject;
-				break;
+	encodeType(data: unknown, type: string): Buffer {
+		switch (type) {
+			case "JSON":
+				return Buffer.from(JSON.stringify(data ?? null), "utf-8");
+			case "MSGPACK": {
+				const encoded = encodeMsgpack(data ?? null);
+				return Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength);
 			}
+			case "CBOR":
+				return encodeCbor(data ?? null);
 			default:
-				throw new Error(`Unsupported encoding: ${response.Encoding}`);
+				throw httpError(415, `Unsupported type: ${type}`);
 		}
-
-		return message;
 	}
 
-	decodeType(message: string, type: string): Context {
+	decodeType(message: string | Buffer, type: string): Context {
 		switch (type) {
-			case "JSON": {
-				return JSON.parse(message);
+			case "JSON":
+				return JSON.parse(message.toString("utf-8"));
+			case "MSGPACK":
+				return decodeMsgpack(Buffer.isBuffer(message) ? message : Buffer.from(message, "utf-8")) as Context;
+			case "CBOR":
+				return decodeCbor(Buffer.isBuffer(message) ? message : Buffer.from(message, "utf-8")) as Context;
+			default:
+				throw httpError(415, `Unsupported type: ${type}`);
+		}
+	}
+
+	private decode(message: string, encoding: string, type: string): Context {
+		this.check(encoding, type);
+
+		let payload: Buffer;
+		try {
+			payload = this.decodeEncoding(message ?? "", encoding);
+		} catch (e: unknown) {
+			if (e instanceof RangeError) {
+				throw httpError(413, `${encoding} message decodes to more than ${this.maxDecodedBytes} bytes`);
 			}
+			throw httpError(400, `Invalid ${encoding} message: ${(e as Error).message}`);
+		}
+
+		try {
+			return this.decodeType(payload, type);
+		} catch (e: unknown) {
+			throw httpError(400, `Invalid ${type} message: ${(e as Error).message}`);
+		}
+	}
+
+	private decodeEncoding(message: string, encoding: string): Buffer {
+		switch (encoding) {
+			case "BASE64":
+				return Buffer.from(message, "base64");
+			case "STRING":
+				return Buffer.from(message, "utf-8");
+			case "GZIP":
+				return gunzipSync(Buffer.from(message, "base64"), { maxOutputLength: this.maxDecodedBytes });
+			case "BROTLI":
+				return brotliDecompressSync(Buffer.from(message, "base64"), { maxOutputLength: this.maxDecodedBytes });
 			default:
-				throw new Error(`Unsupported type: ${type}`);
+				throw httpError(415, `Unsupported encoding: ${encoding}`);
+		}
+	}
+
+	private check(encoding: string, type: string) {
+		if (!ENCODINGS.includes(encoding)) {
+			throw httpError(415, `Unsupported encoding: ${encoding}, use ${ENCODINGS.join(", ")}`);
+		}
+		if (!TYPES.includes(type)) throw httpError(415, `Unsupported type: ${type}, use ${TYPES.join(", ")}`);
+		if (encoding === "STRING" && !TEXT_TYPES.includes(type)) {
+			throw httpError(415, `${type} is binary and cannot use the STRING encoding, use BASE64, GZIP or BROTLI`);
 		}
 	}
 }
@@ -0,0 +1,281 @@
+import path from "node:path";
+import type { GlobalOptions } from "@nanoservice-ts/runner";
+import type { NodeBase } from "@nanoservice-ts/shared";
+import express, { type Request, type Response } from "express";
+import type { Schema } from "jsonschema";
+import Logger from "./Logger";
+import RouteTable from "./RouteTable";
+import type AuthManager from "./auth/AuthManager";
+import type AuthConfig from "./types/AuthConfig";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type RouteParam from "./types/RouteParam";
+import type WorkflowDefinition from "./types/WorkflowDefinition";
+import type { WorkflowStep } from "./types/WorkflowDefinition";
+
+const METHODS = ["get", "post", "put", "patch", "delete"];
+const METHODS_WITH_BODY = ["post", "put", "patch"];
+const SWAGGER_UI_PATH = path.dirname(require.resolve("swagger-ui-dist/package.json"));
+
+type NodeWithSchema = NodeBase & { outputSchema?: Schema };
+type Output = { contentType: string; schema: Schema };
+type Route = { path: string; params: RouteParam[] };
+type Operation = Record<string, unknown>;
+
+/**
+ * OpenAPI 3.1 document generated from the HTTP triggers of the loaded workflows, served at
+ * /openapi.json together with a Swagger UI page (OPENAPI_DOCS_PATH, /docs by default).
+ *
+ * - path params come from the trigger path, optional ones (`/:id?`) produce one path per variant
+ * - the request body and query params come from `schema`, `query_schema` and `params_schema`
+ * - the 200 response comes from the `outputSchema` of the last step, or of the last step of
+ *   each condition when the workflow ends with a flow node
+ *
+ * The document is generated on every request, so it follows reloaded workflows.
+ * Set OPENAPI_ENABLED=false to turn both routes off.
+ */
+export default class OpenApi {
+	private logger = new Logger();
+
+	constructor(
+		private nodeMap: GlobalOptions,
+		private auth: AuthManager,
+	) {}
+
+	static isEnabled(): boolean {
+		return process.env.OPENAPI_ENABLED !== "false";
+	}
+
+	static getDocsPath(): string {
+		return process.env.OPENAPI_DOCS_PATH || "/docs";
+	}
+
+	router(): express.Router {
+		const router = express.Router();
+		const docsPath = OpenApi.getDocsPath();
+
+		router.get("/openapi.json", (req: Request, res: Response) => {
+			res.status(200).json(this.document());
+		});
+
+		router.get([docsPath, `${docsPath}/index.html`], (req: Request, res: Response) => {
+			res.status(200).type("html").send(swaggerPage(docsPath));
+		});
+		router.use(docsPath, express.static(SWAGGER_UI_PATH, { index: false }));
+
+		return router;
+	}
+
+	document(): Record<string, unknown> {
+		const paths: Record<string, Record<string, Operation>> = {};
+		const securitySchemes: Record<string, unknown> = {};
+
+		for (const name of Object.keys(this.nodeMap.workflows).sort()) {
+			const definition = this.definitionOf(name);
+			const trigger = definition?.trigger?.http as HttpTriggerConfig | undefined;
+			if (definition === undefined || trigger === undefined) continue;
+
+			const security = this.securityOf(this.auth.configFor(trigger), securitySchemes);
+			for (const route of expandPath(name, trigger.path)) {
+				paths[route.path] ??= {};
+				for (const method of methodsOf(trigger.method)) {
+					paths[route.path][method] = this.operation(name, definition, trigger, method, route, security);
+				}
+			}
+		}
+
+		return {
+			openapi: "3.1.0",
+			info: {
+				title: process.env.PROJECT_NAME || "nanoservice-ts",
+				version: process.env.PROJECT_VERSION || "0.0.1",
+			},
+			paths,
+			components: { schemas: { Problem: PROBLEM_SCHEMA }, securitySchemes },
+		};
+	}
+
+	private operation(
+		name: string,
+		definition: WorkflowDefinition,
+		trigger: HttpTriggerConfig,
+		method: string,
+		route: Route,
+		security: Record<string, string[]>[] | undefined,
+	): Operation {
+		const hasBody = METHODS_WITH_BODY.includes(method);
+		const querySchema = trigger.query_schema || (!hasBody ? trigger.schema : undefined);
+		const paramSchemas = (trigger.params_schema?.properties ?? {}) as Record<string, Schema>;
+
+		const parameters = [
+			...route.params.map((param) => ({
+				name: param.name,
+				in: "path",
+				required: true,
+				schema: paramSchemas[param.name] ?? schemaOf(param),
+			})),
+			...Object.entries((querySchema?.properties ?? {}) as Record<string, Schema>).map(([param, schema]) => ({
+				name: param,
+				in: "query",
+				required: Array.isArray(querySchema?.required) && querySchema.required.includes(param),
+				description: schema.description,
+				schema,
+			})),
+		];
+
+		const operation: Operation = {
+			operationId: [method, name, ...route.params.map((param) => param.name)].join("_"),
+			summary: definition.name,
+			description: definition.description,
+			tags: [name],
+			parameters,
+			responses: this.responses(definition, trigger, security !== undefined),
+		};
+
+		if (hasBody) {
+			operation.requestBody = {
+				required: trigger.schema !== undefined,
+				content: { "application/json": { schema: trigger.schema ?? { type: "object" } } },
+			};
+		}
+		if (security) operation.security = security;
+
+		return operation;
+	}
+
+	private responses(definition: WorkflowDefinition, trigger: HttpTriggerConfig, secured: boolean) {
+		const content: Record<string, { schema: Schema }> = {};
+		for (const output of this.outputsOf(definition.steps || [], definition.nodes || {})) {
+			const current = content[output.contentType]?.schema;
+			const schemas = current === undefined ? [] : (current.oneOf ?? [current]);
+			if (schemas.some((schema) => JSON.stringify(schema) === JSON.stringify(output.schema))) continue;
+
+			const schema = current === undefined ? output.schema : { oneOf: [...schemas, output.schema] };
+			content[output.contentType] = { schema };
+		}
+
+		const problem = (description: string) => ({
+			description,
+			content: { "application/problem+json": { schema: { $ref: "#/components/schemas/Problem" } } },
+		});
+		const validated = trigger.schema || trigger.query_schema || trigger.params_schema;
+
+		return {
+			"200": { description: "Workflow response", content },
+			...(validated ? { "400": problem("Request does not match the workflow schema") } : {}),
+			...(secured ? { "401": problem("Missing or invalid credentials") } : {}),
+			default: problem("Workflow error"),
+		};
+	}
+
+	// Output of the last step, or of the last step of every condition when it is a flow node
+	private outputsOf(steps: WorkflowStep[], nodes: Record<string, Record<string, unknown>>, depth = 0): Output[] {
+		const last = steps[steps.length - 1];
+		if (last === undefined) return [];
+
+		const conditions = nodes[last.name]?.conditions;
+		if (Array.isArray(conditions) && depth < 10) {
+			return (conditions as { steps?: WorkflowStep[] }[]).flatMap((condition) =>
+				this.outputsOf(condition.steps || [], nodes, depth + 1),
+			);
+		}
+
+		const node = this.nodeMap.nodes.getNodes().get(last.node) as NodeWithSchema | undefined;
+		return [{ contentType: node?.contentType || "application/json", schema: node?.outputSchema ?? {} }];
+	}
+
+	private securityOf(config: AuthConfig | undefined, schemes: Record<string, unknown>) {
+		if (config === undefined) return undefined;
+
+		if (config.type === "jwt") {
+			schemes.BearerJwt = { type: "http", scheme: "bearer", bearerFormat: "JWT" };
+			return [{ BearerJwt: [] }];
+		}
+
+		const header = (config.header || "x-api-key").toLowerCase();
+		const scheme = header === "x-api-key" ? "ApiKey" : `ApiKey_${header}`;
+		schemes[scheme] = { type: "apiKey", in: "header", name: header };
+		return [{ [scheme]: [] }];
+	}
+
+	private definitionOf(name: string): WorkflowDefinition | undefined {
+		try {
+			return JSON.parse(this.nodeMap.workflows[name].toJson()) as WorkflowDefinition;
+		} catch (e: unknown) {
+			this.logger.error(`Unable to describe workflow ${name}: ${(e as Error).message}`);
+			return undefined;
+		}
+	}
+}
+
+const PROBLEM_SCHEMA = {
+	type: "object",
+	required: ["type", "title", "status", "request_id"],
+	properties: {
+		type: { type: "string" },
+		title: { type: "string" },
+		status: { type: "integer" },
+		detail: { type: "string" },
+		instance: { type: "string" },
+		request_id: { type: "string" },
+		workflow: { type: "string" },
+		step: { type: "string" },
+		node: { type: "string" },
+	},
+};
+
+function methodsOf(method: string | undefined): string[] {
+	if (!method || method === "*") return METHODS;
+	return [method.toLowerCase()];
+}
+
+// `/:function?/:id?` on workflow `crud` gives /crud, /crud/{function} and /crud/{function}/{id}
+function expandPath(workflow: string, pattern = "/"): Route[] {
+	let current: Route = { path: `/${workflow}`, params: [] };
+	const routes: Route[] = [];
+
+	for (const segment of pattern.split("/").filter((part) => part !== "")) {
+		const param = RouteTable.parseSegment(segment);
+		if (param?.optional) routes.push(current);
+
+		current = param
+			? { path: `${current.path}/{${param.name}}`, params: [...current.params, param] }
+			: { path: `${current.path}/${segment}`, params: current.params };
+	}
+
+	routes.push(current);
+	return routes;
+}
+
+function schemaOf(param: RouteParam): Schema {
+	switch (param.type) {
+		case "int":
+			return { type: "integer" };
+		case "number":
+			return { type: "number" };
+		case "bool":
+			return { type: "boolean" };
+		case "uuid":
+			return { type: "string", format: "uuid" };
+		default:
+			return param.pattern ? { type: "string", pattern: `^(?:${param.pattern})$` } : { type: "string" };
+	}
+}
+
+function swaggerPage(docsPath: string): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<title>API documentation</title>
+	<link rel="stylesheet" href="${docsPath}/swagger-ui.css">
+</head>
+<body>
+	<div id="swagger-ui"></div>
+	<script src="${docsPath}/swagger-ui-bundle.js"></script>
+	<script>
+		window.ui = SwaggerUIBundle({ url: "/openapi.json", dom_id: "#swagger-ui", deepLinking: true });
+	</script>
+</body>
+</html>
+`;
+}
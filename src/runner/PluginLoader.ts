@@ -0,0 +1,158 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { NodeBase } from "@nanoservice-ts/shared";
+import type { Schema } from "jsonschema";
+import Logger from "./Logger";
+import { httpError } from "./Problem";
+import type PluginStatus from "./types/PluginStatus";
+
+const MANIFEST = "nodes.config.json";
+const SCHEMA_TYPES = ["object", "array", "string", "number", "integer", "boolean", "null"];
+
+type PluginNode = NodeBase & { inputSchema?: Schema; handle?: unknown };
+
+/**
+ * Community nodes listed in nodes.config.json (NODES_CONFIG), next to the ones registered in
+ * src/Nodes.ts, which win when both use the same name:
+ *
+ *   { "nodes": { "slack-message": "@acme/nanoservice-slack", "pdf-report": "./plugins/pdf-report" } }
+ *
+ * An entry is an npm package or a path relative to the manifest, exporting a NanoService as
+ * default. It is imported when a workflow step uses it for the first time, and rejected when
+ * its inputSchema is not a valid JSON schema. Nodes that fail to load only fail the steps using
+ * them; they are logged and listed with their error at /nodes/plugins by the admin API.
+ */
+export default class PluginLoader {
+	private static instance: PluginLoader | undefined;
+
+	private plugins: Map<string, PluginStatus> = new Map();
+	private resolved: Map<string, string> = new Map();
+	private loaded: Map<string, PluginNode> = new Map();
+	private loading: Map<string, Promise<PluginNode>> = new Map();
+	private logger = new Logger();
+
+	constructor(private manifest = process.env.NODES_CONFIG || path.resolve(process.cwd(), MANIFEST)) {
+		this.read();
+	}
+
+	static shared(): PluginLoader {
+		PluginLoader.instance ??= new PluginLoader();
+		return PluginLoader.instance;
+	}
+
+	has(name: string): boolean {
+		return this.plugins.has(name);
+	}
+
+	list(): PluginStatus[] {
+		return [...this.plugins.values()];
+	}
+
+	// Plugins imported so far, the others are only known by name
+	getNodes(): [string, NodeBase][] {
+		return [...this.loaded.entries()];
+	}
+
+	load(name: string): Promise<NodeBase> {
+		const node = this.loaded.get(name);
+		if (node) return Promise.resolve(node);
+
+		let loading = this.loading.get(name);
+		if (loading === undefined) {
+			loading = this.import(name).finally(() => this.loading.delete(name));
+			this.loading.set(name, loading);
+		}
+
+		return loading;
+	}
+
+	private read() {
+		if (!fs.existsSync(this.manifest)) return;
+
+		let entries: [string, string][];
+		try {
+			const nodes = (JSON.parse(fs.readFileSync(this.manifest, "utf-8")) as { nodes?: unknown }).nodes ?? {};
+			// A list of sources is accepted too, each node then takes the name of its package
+			entries = Array.isArray(nodes)
+				? nodes.map((source) => [String(source), String(source)])
+				: Object.entries(nodes as Record<string, unknown>).map(([name, source]) => [name, String(source)]);
+		} catch (e: unknown) {
+			this.logger.error(`Unable to read ${this.manifest}: ${(e as Error).message}`);
+			return;
+		}
+
+		const root = path.dirname(this.manifest);
+		for (const [name, source] of entries) {
+			this.plugins.set(name, { name, source, status: "pending" });
+			try {
+				const local = source.startsWith(".") || path.isAbsolute(source);
+				this.resolved.set(name, require.resolve(local ? path.resolve(root, source) : source, { paths: [root] }));
+			} catch (e: unknown) {
+				this.fail(name, `Cannot resolve ${source}: ${(e as Error).message.split("\n")[0]}`);
+			}
+		}
+	}
+
+	private async import(name: string): Promise<PluginNode> {
+		const status = this.plugins.get(name);
+		const file = this.resolved.get(name);
+		if (status === undefined || file === undefined) {
+			throw httpError(500, `Node ${name} failed to load: ${status?.error ?? "not listed in nodes.config.json"}`);
+		}
+
+		try {
+			const module = await import(file);
+			// CommonJS packages exporting { default } come wrapped once more by the import
+			const exported = module.default?.default ?? module.default ?? module;
+			const node = (typeof exported === "function" ? new exported() : exported) as PluginNode;
+
+			if (typeof node?.handle !== "function") throw new Error("The default export is not a NanoService");
+			const problem = schemaProblem(node.inputSchema, "inputSchema");
+			if (problem !== undefined) throw new Error(problem);
+
+			this.loaded.set(name, node);
+			this.plugins.set(name, { ...status, status: "loaded", error: undefined, loaded_at: new Date().toISOString() });
+			this.logger.log(`Node ${name} loaded from ${status.source}`);
+			return node;
+		} catch (e: unknown) {
+			this.fail(name, (e as Error).message);
+			throw httpError(500, `Node ${name} failed to load: ${(e as Error).message}`);
+		}
+	}
+
+	private fail(name: string, error: string) {
+		const status = this.plugins.get(name) as PluginStatus;
+		this.plugins.set(name, { ...status, status: "failed", error, failed_at: new Date().toISOString() });
+		this.logger.error(`Node ${name} (${status.source}) failed to load: ${error}`);
+	}
+}
+
+// What makes `schema` an invalid JSON schema, undefined when it is valid
+function schemaProblem(schema: unknown, at: string): string | undefined {
+	// true and false are schemas too, accepting or rejecting anything
+	if (typeof schema === "boolean" && at !== "inputSchema") return undefined;
+	if (schema === undefined || schema === null || typeof schema !== "object" || Array.isArray(schema)) {
+		return `${at} must be a JSON schema object`;
+	}
+
+	const { type, properties, items, required } = schema as Record<string, unknown>;
+	const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+	const unknownType = types.find((entry) => !SCHEMA_TYPES.includes(entry as string));
+	if (unknownType !== undefined) return `${at}.type ${JSON.stringify(unknownType)} is not a JSON schema type`;
+
+	if (required !== undefined && !(Array.isArray(required) && required.every((key) => typeof key === "string"))) {
+		return `${at}.required must be a list of property names`;
+	}
+	if (properties !== undefined) {
+		if (typeof properties !== "object" || properties === null || Array.isArray(properties)) {
+			return `${at}.properties must be an object`;
+		}
+		for (const [key, property] of Object.entries(properties)) {
+			const problem = schemaProblem(property, `${at}.properties.${key}`);
+			if (problem !== undefined) return problem;
+		}
+	}
+	if (items !== undefined && !Array.isArray(items)) return schemaProblem(items, `${at}.items`);
+
+	return undefined;
+}
@@ -0,0 +1,86 @@
+import { STATUS_CODES } from "node:http";
+import { GlobalError } from "@nanoservice-ts/shared";
+import type { Response } from "express";
+import type ErrorResponse from "./types/ErrorResponse";
+
+const PROBLEM_CONTENT_TYPE = "application/problem+json";
+const RESERVED_MEMBERS = ["type", "title", "status", "detail", "instance", "request_id", "workflow", "step", "node"];
+
+type ProblemContext = {
+	request_id: string;
+	instance?: string;
+	workflow?: string;
+	// Workflow definition used to find the node behind the failing step
+	definition?: unknown;
+};
+
+export function httpError(status: number, message: string, json?: Record<string, unknown>): GlobalError {
+	const error = new GlobalError(message);
+	error.setCode(status);
+	if (json) error.setJson(json);
+	return error;
+}
+
+export function toProblem(error: unknown, context: ProblemContext): ErrorResponse {
+	let status = 500;
+	let detail = error instanceof Error ? error.message : String(error);
+	let step: string | undefined;
+	let extensions: Record<string, unknown> = {};
+
+	if (error instanceof GlobalError) {
+		status = error.context.code ?? 500;
+		step = error.context.name || undefined;
+
+		const json = error.context.json as unknown;
+		if (json instanceof Error || json instanceof DOMException) {
+			detail = json.toString();
+		} else if (error.hasJson() && json && typeof json === "object") {
+			// Members of the node's JSON error become problem extension members
+			const members = json as Record<string, unknown>;
+			const messageKey = ["detail", "error", "message"].find((key) => typeof members[key] === "string");
+			if (messageKey) detail = members[messageKey] as string;
+
+			extensions = Object.fromEntries(
+				Object.entries(members).filter(([key]) => key !== messageKey && !RESERVED_MEMBERS.includes(key)),
+			);
+		}
+	}
+
+	if (!Number.isInteger(status) || status < 400 || status > 599) status = 500;
+
+	return {
+		type: "about:blank",
+		title: STATUS_CODES[status] || "Error",
+		status,
+		detail,
+		instance: context.instance,
+		request_id: context.request_id,
+		workflow: context.workflow,
+		step,
+		node: step !== undefined ? findStepNode(context.definition, step) : undefined,
+		...extensions,
+	};
+}
+
+export function sendProblem(res: Response, problem: ErrorResponse): void {
+	if (res.headersSent) return;
+
+	res.status(problem.status);
+	res.setHeader("Content-Type", PROBLEM_CONTENT_TYPE);
+	res.send(JSON.stringify(problem));
+}
+
+// Steps can be nested inside conditions and flows, so the whole definition is searched
+function findStepNode(definition: unknown, step: string): string | undefined {
+	if (definition === null || typeof definition !== "object") return undefined;
+
+	const candidate = definition as Record<string, unknown>;
+	if (candidate.name === step && typeof candidate.node === "string") return candidate.node;
+
+	for (const value of Object.values(candidate)) {
+		const node = findStepNode(value, step);
+		if (node !== undefined) return node;
+	}
+
+	return undefined;
+}
@@ -0,0 +1,99 @@
+import type { Request, Response } from "express";
+import type ErrorResponse from "./types/ErrorResponse";
+import type StepEvent from "./types/StepEvent";
+
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Server-Sent Events mode for requests sent with `Accept: text/event-stream`.
+ *
+ * Emits `step.start`, `step.finish` and `step.error` while the workflow runs, followed by
+ * a single `result` or `error` event. Step output is sent as a preview capped at
+ * SSE_PREVIEW_BYTES (1024 by default).
+ */
+export default class ProgressStream {
+	private closed = false;
+	private heartbeat: NodeJS.Timeout | undefined;
+	private previewBytes = Number(process.env.SSE_PREVIEW_BYTES || 1024);
+
+	constructor(
+		private res: Response,
+		private requestId: string,
+	) {}
+
+	static isRequested(req: Request): boolean {
+		return (req.headers.accept || "").toLowerCase().includes("text/event-stream");
+	}
+
+	open(): void {
+		this.res.status(200);
+		this.res.setHeader("Content-Type", "text/event-stream");
+		this.res.setHeader("Cache-Control", "no-cache");
+		this.res.setHeader("Connection", "keep-alive");
+		// Disables response buffering in nginx
+		this.res.setHeader("X-Accel-Buffering", "no");
+		this.res.flushHeaders();
+
+		this.res.on("close", () => this.close());
+		this.heartbeat = setInterval(() => this.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+	}
+
+	onStep(): (event: StepEvent) => void {
+		return (event: StepEvent) => {
+			const payload: Record<string, unknown> = {
+				request_id: this.requestId,
+				step: event.step,
+				node: event.node,
+				index: event.index,
+			};
+
+			if (event.duration !== undefined) payload.duration_ms = Number(event.duration.toFixed(2));
+			if (event.type === "finish") Object.assign(payload, this.preview(event.output));
+			if (event.type === "error") payload.error = (event.error as Error)?.message ?? String(event.error);
+
+			this.send(`step.${event.type}`, payload);
+		};
+	}
+
+	result(contentType: string, data: unknown): void {
+		this.send("result", { request_id: this.requestId, status: 200, contentType, data });
+		this.end();
+	}
+
+	error(problem: ErrorResponse): void {
+		this.send("error", problem);
+		this.end();
+	}
+
+	private preview(output: unknown): { preview?: string; size?: number; truncated?: boolean } {
+		if (output === undefined || output === null) return {};
+
+		const text = typeof output === "string" ? output : JSON.stringify(output);
+		const size = Buffer.byteLength(text);
+		if (size <= this.previewBytes) return { preview: text, size, truncated: false };
+
+		return {
+			preview: Buffer.from(text).subarray(0, this.previewBytes).toString("utf8"),
+			size,
+			truncated: true,
+		};
+	}
+
+	private send(event: string, data: unknown) {
+		this.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+	}
+
+	private write(chunk: string) {
+		if (!this.closed) this.res.write(chunk);
+	}
+
+	private end() {
+		if (!this.closed) this.res.end();
+		this.close();
+	}
+
+	private close() {
+		this.closed = true;
+		clearInterval(this.heartbeat);
+	}
+}
@@ -0,0 +1,78 @@
+import type { Request } from "express";
+import { type Schema, type ValidationError, Validator } from "jsonschema";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type RequestViolation from "./types/RequestViolation";
+
+const METHODS_WITH_BODY = ["post", "put", "patch"];
+
+/**
+ * Validates the incoming request against the schemas declared in `trigger.http`.
+ *
+ * - `schema` describes the body, or the query string for methods without a body
+ * - `query_schema` and `params_schema` describe the query string and path params explicitly
+ *
+ * Query and path values arrive as strings, so they are coerced to the declared
+ * primitive type before validation.
+ */
+export default class RequestValidator {
+	private validator = new Validator();
+
+	validate(req: Request, trigger: HttpTriggerConfig): RequestViolation[] {
+		const violations: RequestViolation[] = [];
+		const hasBody = METHODS_WITH_BODY.includes(req.method.toLowerCase());
+
+		if (hasBody && trigger.schema) {
+			violations.push(...this.check("body", req.body ?? {}, trigger.schema, false));
+		}
+
+		const querySchema = trigger.query_schema || (!hasBody ? trigger.schema : undefined);
+		if (querySchema) {
+			violations.push(...this.check("query", this.defined(req.query), querySchema, true));
+		}
+
+		if (trigger.params_schema) {
+			const { workflow, ...params } = this.defined(req.params);
+			violations.push(...this.check("params", params, trigger.params_schema, true));
+		}
+
+		return violations;
+	}
+
+	private check(location: RequestViolation["in"], instance: unknown, schema: Schema, coerce: boolean) {
+		const result = this.validator.validate(instance, schema, {
+			nestedErrors: true,
+			preValidateProperty: coerce ? this.coerce : undefined,
+		});
+
+		return result.errors.map((error: ValidationError) => this.toViolation(location, error));
+	}
+
+	private toViolation(location: RequestViolation["in"], error: ValidationError): RequestViolation {
+		const path = error.path.map(String);
+		if (error.name === "additionalProperties" || error.name === "required") path.push(String(error.argument));
+
+		return {
+			in: location,
+			path: path.join("."),
+			keyword: error.name,
+			message: error.message,
+		};
+	}
+
+	private coerce(instance: Record<string, unknown>, key: string, schema: Schema) {
+		const value = instance[key];
+		if (typeof value !== "string" || schema === undefined) return;
+
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if ((types.includes("number") || types.includes("integer")) && value.trim() !== "" && !Number.isNaN(+value)) {
+			instance[key] = Number(value);
+		} else if (types.includes("boolean") && (value === "true" || value === "false")) {
+			instance[key] = value === "true";
+		}
+	}
+
+	// Copies the object without undefined entries, e.g. the requestId the trigger clears
+	private defined(source: object): Record<string, unknown> {
+		return Object.fromEntries(Object.entries(source).filter(([, value]) => value !== undefined));
+	}
+}
@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import { metrics } from "@opentelemetry/api";
+import type { Request, Response } from "express";
+import type AuthPrincipal from "./types/AuthPrincipal";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type ResponseCacheConfig from "./types/ResponseCacheConfig";
+
+const CACHEABLE_METHODS = ["get", "head"];
+// Request headers identifying the caller, a response varying on them is private
+const CREDENTIAL_HEADERS = ["authorization", "cookie"];
+
+type CacheEntry = {
+	contentType: string;
+	body: string | Buffer;
+	// Content-Disposition of responses converted to a file, e.g. CSV
+	disposition?: string;
+	etag: string;
+	lastModified: Date;
+	// Epoch milliseconds
+	expiresAt: number;
+	// Request headers from vary_headers, sent back in Vary
+	vary: string[];
+	// Whether the response depends on the authenticated caller
+	private: boolean;
+};
+
+/**
+ * In-memory cache of GET workflow responses, enabled per workflow with `trigger.http.cache`.
+ *
+ * Entries are keyed by workflow, path, the query parameters and headers listed in the config
+ * and the authenticated caller. Responses carry ETag and Last-Modified, and conditional
+ * requests are answered with 304. The headers the entry varies on are listed in Vary, and
+ * responses to an authenticated caller are `private` so shared caches do not keep them.
+ * Entries of a workflow are dropped when it is reloaded.
+ */
+export default class ResponseCache {
+	private entries: Map<string, CacheEntry> = new Map();
+	private maxEntries = Number(process.env.RESPONSE_CACHE_MAX_ENTRIES || 1000);
+	private hits = metrics.getMeter("default").createCounter("workflow_cache_hits", {
+		description: "Workflow responses served from the cache",
+	});
+	private misses = metrics.getMeter("default").createCounter("workflow_cache_misses", {
+		description: "Workflow responses not found in the cache",
+	});
+
+	static configOf(trigger: HttpTriggerConfig): ResponseCacheConfig | undefined {
+		const config = trigger.cache;
+		if (config === undefined || !(Number(config.ttl) > 0)) return undefined;
+
+		return config;
+	}
+
+	keyOf(req: Request, workflow: string, config: ResponseCacheConfig, format = "json"): string | undefined {
+		if (!CACHEABLE_METHODS.includes(req.method.toLowerCase())) return undefined;
+
+		const { requestId, ...query } = req.query;
+		const varyQuery = config.vary_query ?? true;
+		const queryKeys = Array.isArray(varyQuery) ? varyQuery : varyQuery ? Object.keys(query).sort() : [];
+		const headerKeys = (config.vary_headers || []).map((name) => name.toLowerCase()).sort();
+		const principal = (req as Request & { auth?: AuthPrincipal }).auth;
+
+		return JSON.stringify([
+			workflow,
+			req.path,
+			queryKeys.map((key) => [key, query[key]]),
+			headerKeys.map((name) => [name, req.headers[name]]),
+			principal ? `${principal.type}:${principal.subject}` : null,
+			format,
+		]);
+	}
+
+	lookup(key: string, workflow: string): CacheEntry | undefined {
+		const entry = this.entries.get(key);
+		if (entry === undefined || entry.expiresAt <= Date.now()) {
+			if (entry) this.entries.delete(key);
+			this.misses.add(1, { env: process.env.NODE_ENV, workflow_path: workflow });
+			return undefined;
+		}
+
+		// Re-inserting keeps the map ordered by last use
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		this.hits.add(1, { env: process.env.NODE_ENV, workflow_path: workflow });
+		return entry;
+	}
+
+	store(
+		key: string,
+		req: Request,
+		contentType: string,
+		data: unknown,
+		config: ResponseCacheConfig,
+		disposition?: string,
+	): CacheEntry {
+		const body = Buffer.isBuffer(data) ? data : typeof data === "string" ? data : JSON.stringify(data ?? null);
+		const vary = config.vary_headers || [];
+		const entry: CacheEntry = {
+			contentType,
+			body,
+			disposition,
+			etag: `"${createHash("sha1").update(body).digest("base64url")}"`,
+			lastModified: new Date(),
+			expiresAt: Date.now() + config.ttl * 1000,
+			vary,
+			private:
+				(req as Request & { auth?: AuthPrincipal }).auth !== undefined ||
+				vary.some((name) => CREDENTIAL_HEADERS.includes(name.toLowerCase())),
+		};
+
+		this.entries.set(key, entry);
+		while (this.entries.size > this.maxEntries) {
+			this.entries.delete(this.entries.keys().next().value as string);
+		}
+
+		return entry;
+	}
+
+	send(req: Request, res: Response, entry: CacheEntry): void {
+		const maxAge = Math.max(0, Math.floor((entry.expiresAt - Date.now()) / 1000));
+		res.setHeader("ETag", entry.etag);
+		res.setHeader("Last-Modified", entry.lastModified.toUTCString());
+		res.setHeader("Cache-Control", `${entry.private ? "private" : "public"}, max-age=${maxAge}`);
+		for (const name of entry.vary) res.vary(name);
+
+		if (this.notModified(req, entry)) {
+			res.status(304).end();
+			return;
+		}
+
+		res.setHeader("Content-Type", entry.contentType);
+		if (entry.disposition) res.setHeader("Content-Disposition", entry.disposition);
+		res.status(200).send(entry.body);
+	}
+
+	clear(workflow?: string): void {
+		if (workflow === undefined) {
+			this.entries.clear();
+			return;
+		}
+
+		const prefix = JSON.stringify([workflow]).slice(0, -1);
+		for (const key of this.entries.keys()) {
+			if (key.startsWith(`${prefix},`)) this.entries.delete(key);
+		}
+	}
+
+	// If-None-Match takes precedence over If-Modified-Since (RFC 9110, 13.2.2)
+	private notModified(req: Request, entry: CacheEntry): boolean {
+		const ifNoneMatch = req.headers["if-none-match"];
+		if (ifNoneMatch !== undefined) {
+			const tags = ifNoneMatch.split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+			return tags.includes("*") || tags.includes(entry.etag);
+		}
+
+		const ifModifiedSince = req.headers["if-modified-since"];
+		if (ifModifiedSince !== undefined) {
+			const since = Date.parse(ifModifiedSince);
+			return !Number.isNaN(since) && Math.floor(entry.lastModified.getTime() / 1000) * 1000 <= since;
+		}
+
+		return false;
+	}
+}
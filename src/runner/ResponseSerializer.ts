@@ -0,0 +1,147 @@
+import ExcelJS from "exceljs";
+import type { Request } from "express";
+import type { Schema } from "jsonschema";
+import { httpError } from "./Problem";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type ResponseFormat from "./types/ResponseFormat";
+
+const MEDIA_TYPES: { [key in ResponseFormat]: string } = {
+	csv: "text/csv",
+	ndjson: "application/x-ndjson",
+	xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Spreadsheets opening a CSV file run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+type Row = Record<string, unknown>;
+
+/**
+ * Serializes tabular workflow responses to CSV, NDJSON or XLSX.
+ *
+ * The format comes from `?format=` or the Accept header, and requests accepting any type get
+ * the media type in `trigger.http.accept`. Otherwise the response is sent as the workflow
+ * returned it. Tabular responses are a list of objects, or an object holding them in `data`
+ * like `{ total, data: [...] }`; other responses cannot be converted and get a 406. That 406
+ * comes before the run when the last step's output schema rules out a table, otherwise only
+ * once the workflow has run, side effects included. CSV cells that a spreadsheet would run
+ * as a formula are prefixed with `'`, XLSX cells are typed and never read as formulas.
+ */
+export default class ResponseSerializer {
+	// Undefined when the response is sent as the workflow returned it
+	negotiate(req: Request, trigger: HttpTriggerConfig): ResponseFormat | undefined {
+		const requested = req.query.format;
+		if (typeof requested === "string" && requested !== "") {
+			if (requested === "json") return undefined;
+			if (!(requested in MEDIA_TYPES)) {
+				throw httpError(406, `Unsupported format: ${requested}, use json, csv, ndjson or xlsx`);
+			}
+			return requested as ResponseFormat;
+		}
+
+		const accept = (req.headers.accept || "").trim();
+		const types = ["application/json", ...Object.values(MEDIA_TYPES)];
+		const preferred = accept !== "" && accept !== "*/*" ? req.accepts(types) : trigger.accept;
+
+		return typeof preferred === "string" ? formatOf(preferred) : undefined;
+	}
+
+	// Rejects the format before the run when the output schema of the last step is not tabular
+	checkOutput(format: ResponseFormat, step: { outputSchema?: Schema } | undefined): void {
+		if (step?.outputSchema !== undefined && !maybeTabular(step.outputSchema)) throw notTabular(format);
+	}
+
+	async serialize(format: ResponseFormat, data: unknown): Promise<{ contentType: string; body: string | Buffer }> {
+		const rows = rowsOf(data);
+		if (rows === undefined) throw notTabular(format);
+
+		switch (format) {
+			case "csv":
+				return { contentType: `${MEDIA_TYPES.csv}; charset=utf-8`, body: toCsv(rows) };
+			case "ndjson":
+				return { contentType: MEDIA_TYPES.ndjson, body: rows.map((row) => `${JSON.stringify(row)}\n`).join("") };
+			case "xlsx":
+				return { contentType: MEDIA_TYPES.xlsx, body: await toXlsx(rows) };
+		}
+	}
+}
+
+function formatOf(mediaType: string): ResponseFormat | undefined {
+	const type = mediaType.split(";")[0].trim().toLowerCase();
+	return (Object.keys(MEDIA_TYPES) as ResponseFormat[]).find((format) => MEDIA_TYPES[format] === type);
+}
+
+function notTabular(format: ResponseFormat) {
+	const message = `The response is not tabular and cannot be sent as ${MEDIA_TYPES[format]}`;
+	return httpError(406, `${message}, expected a list of objects or { data: [...] }`);
+}
+
+// False only when the schema rules out a list of objects and an object holding one in `data`
+function maybeTabular(schema: Schema): boolean {
+	const types = [schema.type ?? []].flat();
+	if (types.length === 0 || types.includes("array")) return true;
+	if (!types.includes("object")) return false;
+	if (schema.properties === undefined) return true;
+
+	const data = schema.properties.data;
+	return data !== undefined && [data.type ?? "array"].flat().includes("array");
+}
+
+function rowsOf(data: unknown): Row[] | undefined {
+	let value = data;
+	if (typeof value === "string") {
+		try {
+			value = JSON.parse(value);
+		} catch {
+			return undefined;
+		}
+	}
+
+	const rows = Array.isArray(value) ? value : (value as { data?: unknown } | null)?.data;
+	if (!Array.isArray(rows)) return undefined;
+
+	return rows.every((row) => row !== null && typeof row === "object" && !Array.isArray(row)) ? rows : undefined;
+}
+
+// Columns in order of first appearance, rows may not all have the same keys
+function columnsOf(rows: Row[]): string[] {
+	const columns = new Set<string>();
+	for (const row of rows) {
+		for (const key of Object.keys(row)) columns.add(key);
+	}
+	return [...columns];
+}
+
+// Nested values are kept as JSON in a single cell
+function cellOf(value: unknown): string | number | boolean | Date | null {
+	if (value === undefined || value === null) return null;
+	if (typeof value === "object" && !(value instanceof Date)) return JSON.stringify(value);
+
+	return value as string | number | boolean | Date;
+}
+
+function toCsv(rows: Row[]): string {
+	const columns = columnsOf(rows);
+	const escape = (value: unknown) => {
+		const cell = cellOf(value);
+		let text = cell instanceof Date ? cell.toISOString() : cell === null ? "" : String(cell);
+		if (typeof cell === "string" && FORMULA_START.test(cell)) text = `'${text}`;
+		return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	};
+
+	const lines = [columns.map(escape), ...rows.map((row) => columns.map((column) => escape(row[column])))];
+	return lines.map((line) => `${line.join(",")}\r\n`).join("");
+}
+
+async function toXlsx(rows: Row[]): Promise<Buffer> {
+	const workbook = new ExcelJS.Workbook();
+	const sheet = workbook.addWorksheet("data");
+	const columns = columnsOf(rows);
+
+	sheet.columns = columns.map((column) => ({ header: column, key: column }));
+	for (const row of rows) {
+		sheet.addRow(Object.fromEntries(columns.map((column) => [column, cellOf(row[column])])));
+	}
+
+	return Buffer.from(await workbook.xlsx.writeBuffer());
+}
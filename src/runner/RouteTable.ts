@@ -0,0 +1,168 @@
+import type { GlobalOptions } from "@nanoservice-ts/runner";
+import Logger from "./Logger";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type RouteParam from "./types/RouteParam";
+
+type CompiledRoute = {
+	pattern: string;
+	regexp: RegExp;
+	params: RouteParam[];
+};
+
+const TYPES: { [key: string]: string } = {
+	int: "-?\\d+",
+	number: "-?\\d+(?:\\.\\d+)?",
+	bool: "true|false",
+	uuid: "[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}",
+	string: "[^/]+",
+};
+
+// :name, :name(regex) or :name<type>, optionally followed by ?
+const PARAM = /^:(\w+)(?:\((.+)\)|<(\w+)>)?(\?)?$/;
+// * or *name, the rest of the path
+const WILDCARD = /^\*(\w+)?$/;
+
+/**
+ * Trigger paths of the loaded workflows, compiled once when workflows are loaded instead of
+ * on every request. A path is matched after the workflow name, e.g. `/:year<int>` on workflow
+ * `reports` matches `/reports/2024`.
+ *
+ * - `:id` matches a segment, `:id?` an optional one
+ * - `:id(\d+)` constrains it with a regular expression
+ * - `:id<int>` constrains it to a type (int, number, bool, uuid or string) and coerces the value
+ * - `*` or `*rest` matches the rest of the path, `*` is named `wildcard`
+ *
+ * A request is matched against a single path, picked in this order:
+ *
+ * 1. the built-in routes passed as `reserved` (health check, metrics, jobs, admin and OpenAPI),
+ *    a workflow with the same name is reported as shadowed when workflows load
+ * 2. the workflow named by the first path segment; a `/v<n>` segment selects version n of the
+ *    workflow after it, unless a workflow is itself named `v<n>`
+ * 3. the version asked for with Accept-Version, or the default one (WorkflowVersions)
+ * 4. the canary variant the request is assigned to (TrafficSplitter)
+ *
+ * Only the path of the workflow picked last is matched. Versions and variants keep their own
+ * paths, and a request that does not match it gets a 404 instead of falling back to another
+ * version or variant.
+ */
+export default class RouteTable {
+	private routes: Map<string, CompiledRoute> = new Map();
+	private logger = new Logger();
+
+	constructor(
+		private nodeMap: GlobalOptions,
+		private reserved: () => string[] = () => [],
+	) {}
+
+	// Param declared by a path segment, undefined for a static segment
+	static parseSegment(segment: string): RouteParam | undefined {
+		const wildcard = segment.match(WILDCARD);
+		if (wildcard) return { name: wildcard[1] || "wildcard", optional: true, wildcard: true };
+
+		const param = segment.match(PARAM);
+		if (param === null) return undefined;
+
+		const [, name, pattern, type, optional] = param;
+		return { name, type, pattern, optional: optional !== undefined };
+	}
+
+	static compile(pattern: string): CompiledRoute {
+		const params: RouteParam[] = [];
+		let source = "";
+
+		for (const segment of pattern.split("/").filter((part) => part !== "")) {
+			const param = RouteTable.parseSegment(segment);
+			if (param === undefined) {
+				source += `/${segment.replace(/[.+?^${}()|[\]\\*]/g, "\\$&")}`;
+				continue;
+			}
+
+			if (param.type !== undefined && TYPES[param.type] === undefined) {
+				throw new Error(`Unknown type <${param.type}> in path ${pattern}`);
+			}
+
+			params.push(param);
+			const expression = param.wildcard ? ".*" : (param.pattern ?? TYPES[param.type ?? "string"]);
+			source += param.optional ? `(?:/(${expression}))?` : `/(${expression})`;
+		}
+
+		// A regular expression constraint must not add capture groups of its own
+		const regexp = new RegExp(`^${source}/?$`);
+		if (new RegExp(`${regexp.source}|`).exec("")?.length !== params.length + 1) {
+			throw new Error(`Use non-capturing groups (?:...) in the constraints of path ${pattern}`);
+		}
+
+		return { pattern, regexp, params };
+	}
+
+	// Re-compiles the paths from the node map, e.g. after workflows were reloaded
+	sync() {
+		const routes = new Map<string, CompiledRoute>();
+		const reserved = this.reserved();
+
+		for (const [name, workflow] of Object.entries(this.nodeMap.workflows || {})) {
+			const pattern = pathOf(workflow.toJson());
+			if (pattern === undefined) continue;
+
+			try {
+				routes.set(name, RouteTable.compile(pattern));
+			} catch (e: unknown) {
+				this.logger.error(`Invalid path for workflow ${name}: ${(e as Error).message}`);
+			}
+
+			if (reserved.includes(name)) this.logger.warn(`Workflow ${name} is shadowed by the built-in route /${name}`);
+		}
+
+		this.routes = routes;
+	}
+
+	/*
+	 * Params of the request path (after the workflow name) with typed values coerced, undefined
+	 * when it does not match. Paths not seen when workflows loaded, like remote node calls,
+	 * are compiled on the spot.
+	 */
+	match(workflow: string, pattern: string, path: string): Record<string, unknown> | undefined {
+		let route = this.routes.get(workflow);
+		if (route === undefined || route.pattern !== pattern) route = RouteTable.compile(pattern);
+
+		const match = route.regexp.exec(path);
+		if (match === null) return undefined;
+
+		const params: Record<string, unknown> = {};
+		route.params.forEach((param, index) => {
+			const value = match[index + 1];
+			if (value !== undefined) params[param.name] = coerce(decode(value), param.type);
+		});
+
+		return params;
+	}
+}
+
+function pathOf(json: string): string | undefined {
+	try {
+		const trigger = JSON.parse(json).trigger?.http as HttpTriggerConfig | undefined;
+		return typeof trigger?.path === "string" ? trigger.path : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function decode(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+function coerce(value: string, type: string | undefined): unknown {
+	switch (type) {
+		case "int":
+		case "number":
+			return Number(value);
+		case "bool":
+			return value === "true";
+		default:
+			return value;
+	}
+}
@@ -0,0 +1,28 @@
+import { Configuration } from "@nanoservice-ts/runner";
+import type RunnerNode from "@nanoservice-ts/runner/dist/RunnerNode";
+import PluginLoader from "./PluginLoader";
+import PythonNode from "./python/PythonNode";
+import NodeTypes from "./types/NodeTypes";
+
+/*
+ * Configuration resolving the steps the runner package does not know: runtime.python3 steps
+ * and module steps using a node from nodes.config.json, imported on first use.
+ */
+export default class RuntimeConfiguration extends Configuration {
+	constructor(private plugins: PluginLoader = PluginLoader.shared()) {
+		super();
+	}
+
+	protected async nodeResolver(node: RunnerNode): Promise<RunnerNode> {
+		if (node.type === NodeTypes.PYTHON3) return new PythonNode() as unknown as RunnerNode;
+
+		const registered = this.globalOptions?.nodes?.getNode(node.node) !== undefined;
+		if (node.type === NodeTypes.MODULE && !registered && this.plugins.has(node.node)) {
+			// A copy per step, like the runner does for registered nodes
+			const plugin = await this.plugins.load(node.node);
+			return Object.assign(Object.create(Object.getPrototypeOf(plugin)), plugin) as RunnerNode;
+		}
+
+		return super.nodeResolver(node);
+	}
+}
@@ -0,0 +1,263 @@
+import type { GlobalOptions } from "@nanoservice-ts/runner";
+import { TriggerBase } from "@nanoservice-ts/runner";
+import type { RequestContext } from "@nanoservice-ts/shared";
+import { type Span, SpanStatusCode, trace } from "@opentelemetry/api";
+import { CronExpressionParser } from "cron-parser";
+import { v4 as uuid } from "uuid";
+import Deadline from "./Deadline";
+import ExecutionPlan from "./ExecutionPlan";
+import Logger from "./Logger";
+import { toProblem } from "./Problem";
+import type WorkflowStats from "./WorkflowStats";
+import WorkflowTelemetry from "./WorkflowTelemetry";
+import type ScheduleRun from "./types/ScheduleRun";
+import type ScheduleTriggerConfig from "./types/ScheduleTriggerConfig";
+
+// setTimeout overflows past ~24.8 days, longer waits are split
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+type CronTimer = {
+	expression: string;
+	next?: Date;
+	timer?: NodeJS.Timeout;
+};
+
+type ScheduledWorkflow = {
+	config: ScheduleTriggerConfig;
+	signature: string;
+	timers: CronTimer[];
+};
+
+/**
+ * Runs workflows declaring `trigger.schedule` in-process, on their cron expressions.
+ *
+ * Each run resolves its own execution plan, so workflows run concurrently and a slow one
+ * does not delay the others. A workflow that is still running when its next tick fires is
+ * skipped, and the skipped tick is kept in the run history with the others. Cron
+ * expressions are evaluated in UTC unless the schedule sets a timezone.
+ *
+ * Runs are limited by `timeout` (or WORKFLOW_TIMEOUT_MS) and reported in the request
+ * metrics and spans like HTTP requests, under the `schedule` transport.
+ */
+export default class ScheduleTrigger extends TriggerBase {
+	private schedules: Map<string, ScheduledWorkflow> = new Map();
+	private history: Map<string, ScheduleRun[]> = new Map();
+	private active: Set<string> = new Set();
+	private started = false;
+	private historySize = Number(process.env.SCHEDULE_HISTORY_SIZE || 100);
+	private logger = new Logger();
+	protected tracer = trace.getTracer(
+		process.env.PROJECT_NAME || "trigger-schedule-workflow",
+		process.env.PROJECT_VERSION || "0.0.1",
+	);
+	private telemetry: WorkflowTelemetry;
+
+	constructor(
+		private nodeMap: GlobalOptions,
+		stats?: WorkflowStats,
+	) {
+		super();
+		this.telemetry = new WorkflowTelemetry(this.tracer, "schedule", stats);
+	}
+
+	listen(): Promise<number> {
+		const start = this.startCounter();
+		this.started = true;
+		this.sync();
+
+		return Promise.resolve(this.endCounter(start));
+	}
+
+	stop() {
+		this.started = false;
+		for (const name of [...this.schedules.keys()]) this.unschedule(name);
+	}
+
+	// Re-reads the schedules from the node map, e.g. after workflows were reloaded
+	sync() {
+		if (!this.started) return;
+
+		const declared = new Map<string, ScheduleTriggerConfig>();
+		for (const [name, workflow] of Object.entries(this.nodeMap.workflows || {})) {
+			const config = this.configOf(name, workflow.toJson());
+			if (config && config.enabled !== false) declared.set(name, config);
+		}
+
+		for (const name of [...this.schedules.keys()]) {
+			const config = declared.get(name);
+			if (config === undefined || JSON.stringify(config) !== this.schedules.get(name)?.signature) {
+				this.unschedule(name);
+			}
+		}
+
+		for (const [name, config] of declared) {
+			if (!this.schedules.has(name)) this.schedule(name, config);
+		}
+	}
+
+	getSchedules() {
+		return [...this.schedules.entries()].flatMap(([workflow, scheduled]) =>
+			scheduled.timers.map((cron) => ({
+				workflow,
+				cron: cron.expression,
+				timezone: timezoneOf(scheduled.config),
+				next_run: cron.next?.toISOString(),
+				running: this.active.has(workflow),
+			})),
+		);
+	}
+
+	getRuns(workflow?: string, limit = this.historySize): ScheduleRun[] {
+		const runs = workflow !== undefined ? this.history.get(workflow) || [] : [...this.history.values()].flat();
+
+		return [...runs].sort((a, b) => b.scheduled_at.localeCompare(a.scheduled_at)).slice(0, limit);
+	}
+
+	private configOf(name: string, json: string): ScheduleTriggerConfig | undefined {
+		try {
+			const trigger = (JSON.parse(json) as { trigger?: Record<string, unknown> }).trigger;
+			return trigger?.schedule as ScheduleTriggerConfig | undefined;
+		} catch (e: unknown) {
+			this.logger.error(`Unable to read the schedule of ${name}: ${(e as Error).message}`);
+			return undefined;
+		}
+	}
+
+	private schedule(name: string, config: ScheduleTriggerConfig) {
+		const expressions = Array.isArray(config.cron) ? config.cron : [config.cron];
+		const scheduled: ScheduledWorkflow = { config, signature: JSON.stringify(config), timers: [] };
+
+		for (const expression of expressions) {
+			try {
+				// Parsed once up front so a bad expression or time zone is reported on load
+				CronExpressionParser.parse(expression, { tz: timezoneOf(config) });
+			} catch (e: unknown) {
+				this.logger.error(`Invalid schedule for ${name} (${expression}): ${(e as Error).message}`);
+				continue;
+			}
+
+			const cron: CronTimer = { expression };
+			scheduled.timers.push(cron);
+			this.arm(name, scheduled, cron);
+		}
+
+		this.schedules.set(name, scheduled);
+		this.logger.log(`Workflow scheduled: ${name} (${scheduled.timers.map((cron) => cron.expression).join(", ")})`);
+	}
+
+	private unschedule(name: string) {
+		for (const cron of this.schedules.get(name)?.timers || []) clearTimeout(cron.timer);
+		this.schedules.delete(name);
+	}
+
+	// Ticks are computed from the previous one, a timer firing a few ms early never runs the same tick twice
+	private arm(name: string, scheduled: ScheduledWorkflow, cron: CronTimer, after = new Date()) {
+		const next =
+			cron.next && cron.next.getTime() > Date.now()
+				? cron.next
+				: CronExpressionParser.parse(cron.expression, { tz: timezoneOf(scheduled.config), currentDate: after })
+						.next()
+						.toDate();
+		cron.next = next;
+
+		const delay = next.getTime() - Date.now();
+		cron.timer = setTimeout(
+			() => {
+				if (delay > MAX_TIMEOUT) return this.arm(name, scheduled, cron);
+
+				cron.next = undefined;
+				this.dispatch(name, cron.expression, scheduled.config, next);
+				this.arm(name, scheduled, cron, new Date(next.getTime() + 1));
+			},
+			Math.min(Math.max(delay, 0), MAX_TIMEOUT),
+		);
+		cron.timer.unref();
+	}
+
+	private dispatch(name: string, cron: string, config: ScheduleTriggerConfig, scheduledAt: Date) {
+		if (this.active.has(name)) {
+			this.record({
+				id: uuid(),
+				workflow: name,
+				cron,
+				status: "skipped",
+				scheduled_at: scheduledAt.toISOString(),
+			});
+			this.logger.log(`${name}: scheduled run skipped, the previous run has not finished`);
+			return;
+		}
+
+		this.active.add(name);
+		this.execute(name, cron, config, scheduledAt).finally(() => this.active.delete(name));
+	}
+
+	private async execute(name: string, cron: string, config: ScheduleTriggerConfig, scheduledAt: Date) {
+		const run: ScheduleRun = {
+			id: uuid(),
+			workflow: name,
+			cron,
+			status: "running",
+			scheduled_at: scheduledAt.toISOString(),
+			started_at: new Date().toISOString(),
+		};
+		this.record(run);
+		let plan: ExecutionPlan | undefined;
+		let status = 200;
+		const finish = this.telemetry.begin();
+
+		await this.tracer.startActiveSpan(`schedule:${name}`, async (span: Span) => {
+			const start = performance.now();
+			try {
+				plan = await ExecutionPlan.forWorkflow(name, this.nodeMap);
+				const ctx = plan.createContext(new Logger(plan.configuration.name, name, run.id), name, run.id);
+				ctx.request = {
+					method: "SCHEDULE",
+					body: config.body ?? {},
+					query: config.query || {},
+					params: {},
+					headers: { ...config.headers, "x-nanoservice-trigger": "schedule" },
+				} as unknown as RequestContext;
+
+				const deadline = new Deadline(Deadline.timeoutOf(config));
+				deadline.attach(ctx);
+				deadline.limitSteps(plan.configuration);
+				this.telemetry.traceSteps(plan.configuration, span, name);
+
+				await deadline.race(plan.run(ctx));
+				run.status = "succeeded";
+				span.setStatus({ code: SpanStatusCode.OK });
+			} catch (e: unknown) {
+				run.status = "failed";
+				run.error = (e as Error).message;
+				status = toProblem(e, { request_id: run.id, workflow: name }).status;
+				span.recordException(e as Error);
+				span.setStatus({ code: SpanStatusCode.ERROR, message: run.error });
+				this.logger.error(`${name}: scheduled run failed: ${run.error}`, `${(e as Error).stack?.replace(/\n/g, " ")}`);
+			} finally {
+				run.duration_ms = Number((performance.now() - start).toFixed(2));
+				run.finished_at = new Date().toISOString();
+				span.setAttribute("workflow_request_id", run.id);
+				span.setAttribute("workflow_schedule", cron);
+				finish({
+					workflow_path: name,
+					workflow_name: plan?.configuration.name,
+					workflow_version: plan?.configuration.version,
+					status,
+				});
+				span.end();
+			}
+		});
+	}
+
+	private record(run: ScheduleRun) {
+		const runs = this.history.get(run.workflow) || [];
+		runs.push(run);
+		if (runs.length > this.historySize) runs.splice(0, runs.length - this.historySize);
+		this.history.set(run.workflow, runs);
+	}
+}
+
+// cron-parser falls back to the server's time zone, schedules default to UTC wherever they run
+function timezoneOf(config: ScheduleTriggerConfig): string {
+	return config.timezone || "UTC";
+}
@@ -0,0 +1,65 @@
+import type { Configuration } from "@nanoservice-ts/runner";
+import type { Context, NodeBase, ResponseContext } from "@nanoservice-ts/shared";
+import type StepEvent from "./types/StepEvent";
+
+type StepListener = (event: StepEvent) => void;
+type ProcessFn = (ctx: Context, step?: unknown) => Promise<ResponseContext>;
+type StepWrapper = (instance: NodeBase & { node?: string }, process: ProcessFn) => ProcessFn;
+
+/**
+ * Replaces `process` on the node instances resolved for one workflow run with the
+ * function returned by `wrapper`, e.g. to observe or bound each step.
+ *
+ * Configuration.init clones the nodes on every call, so the wrappers only ever apply
+ * to the request that installed them. Steps nested in conditions or flows are found
+ * by walking the resolved node configuration.
+ */
+export function wrapSteps(configuration: Configuration, wrapper: StepWrapper): void {
+	const wrapped = new WeakSet<object>();
+
+	const wrap = (instance: NodeBase) => {
+		if (wrapped.has(instance)) return;
+		wrapped.add(instance);
+
+		const original = instance.process.bind(instance) as ProcessFn;
+		(instance as unknown as { process: ProcessFn }).process = wrapper(instance, original);
+	};
+
+	const visit = (value: unknown, depth: number) => {
+		if (value === null || typeof value !== "object" || depth > 10) return;
+		if (typeof (value as NodeBase).process === "function") return wrap(value as NodeBase);
+
+		for (const child of Object.values(value)) visit(child, depth + 1);
+	};
+
+	visit(configuration.steps, 0);
+	visit(configuration.nodes, 0);
+}
+
+// Reports each step as it starts and finishes (job progress, SSE, spans)
+export function instrumentSteps(configuration: Configuration, listener: StepListener): void {
+	let sequence = 0;
+
+	wrapSteps(configuration, (instance, original) => async (ctx: Context, step?: unknown) => {
+		const event = { step: instance.name, node: instance.node ?? instance.name, index: sequence++ };
+		const start = performance.now();
+		listener({ ...event, type: "start", ctx });
+
+		try {
+			const response = await original(ctx, step);
+			const duration = performance.now() - start;
+
+			// NanoService nodes return their failures in the response, the runner throws them afterwards
+			const result = response?.data as ResponseContext | undefined;
+			if (result?.error) {
+				listener({ ...event, type: "error", ctx, duration, error: result.error });
+			} else {
+				listener({ ...event, type: "finish", ctx, duration, output: result?.data ?? result });
+			}
+			return response;
+		} catch (error: unknown) {
+			listener({ ...event, type: "error", ctx, duration: performance.now() - start, error });
+			throw error;
+		}
+	});
+}
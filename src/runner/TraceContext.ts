@@ -0,0 +1,27 @@
+import { type Context, ROOT_CONTEXT, context, createContextKey, propagation } from "@opentelemetry/api";
+
+type Headers = Record<string, string | string[] | undefined>;
+
+const STEP_KEY = createContextKey("nanoservice.step");
+
+// Trace context sent by the caller in `traceparent`/`tracestate`. Incoming requests start from
+// the root context, the server itself may be listening inside another span (initialization).
+export function extractTraceContext(headers: Headers): Context {
+	return propagation.extract(ROOT_CONTEXT, headers);
+}
+
+// Adds the active trace context to the headers of an outgoing request
+export function traceHeaders(headers: Record<string, string> = {}): Record<string, string> {
+	const carrier = { ...headers };
+	propagation.inject(context.active(), carrier);
+	return carrier;
+}
+
+// Marks the workflow step running in this context, e.g. for the log lines it writes
+export function withStep(parent: Context, step: string): Context {
+	return parent.setValue(STEP_KEY, step);
+}
+
+export function activeStep(): string | undefined {
+	return context.active().getValue(STEP_KEY) as string | undefined;
+}
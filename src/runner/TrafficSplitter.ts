@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+import type { GlobalOptions } from "@nanoservice-ts/runner";
+import type { Request } from "express";
+import type HttpTriggerConfig from "./types/HttpTriggerConfig";
+import type TrafficSplitConfig from "./types/TrafficSplitConfig";
+
+/**
+ * Weighted traffic splitting between a workflow and its variants, configured with
+ * `trigger.http.split`, e.g. to canary a change on 10% of the requests:
+ *
+ *   "split": { "variants": [{ "workflow": "company-analytics-v2", "weight": 10, "label": "v2" }] }
+ *
+ * Requests carrying the sticky header (x-client-id by default) or a `client_id` query
+ * parameter always get the same variant for the same client, the others are assigned at
+ * random. Variants that are not loaded are skipped, their share stays on the workflow.
+ */
+export default class TrafficSplitter {
+	private splits: Map<string, TrafficSplitConfig> = new Map();
+
+	constructor(private nodeMap: GlobalOptions) {}
+
+	// Re-reads the splits from the node map, e.g. after workflows were reloaded
+	sync() {
+		const splits = new Map<string, TrafficSplitConfig>();
+		for (const [name, workflow] of Object.entries(this.nodeMap.workflows || {})) {
+			const config = splitOf(workflow.toJson());
+			if (config) splits.set(name, config);
+		}
+
+		this.splits = splits;
+	}
+
+	// Workflow to run and its variant label, undefined when the workflow is not split
+	assign(req: Request, workflow: string): { workflow: string; variant: string } | undefined {
+		const config = this.splits.get(workflow);
+		if (config === undefined) return undefined;
+
+		const header = req.headers[(config.sticky_header || "x-client-id").toLowerCase()];
+		const query = req.query.client_id;
+		const client = (typeof header === "string" && header) || (typeof query === "string" && query);
+		const bucket = client ? bucketOf(`${workflow}:${client}`) : Math.random() * 100;
+
+		let threshold = 0;
+		for (const variant of config.variants) {
+			threshold += Number(variant.weight) || 0;
+			if (bucket < threshold && this.nodeMap.workflows[variant.workflow] !== undefined) {
+				return { workflow: variant.workflow, variant: variant.label || variant.workflow };
+			}
+		}
+
+		return { workflow, variant: config.label || "control" };
+	}
+}
+
+function splitOf(json: string): TrafficSplitConfig | undefined {
+	try {
+		const trigger = JSON.parse(json).trigger?.http as HttpTriggerConfig | undefined;
+		return Array.isArray(trigger?.split?.variants) ? trigger.split : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+// Stable position of a client in [0, 100)
+function bucketOf(key: string): number {
+	return (createHash("sha1").update(key).digest().readUInt32BE(0) % 10000) / 100;
+}
@@ -1,48 +1,47 @@
+import { HelperResponse, type Step as HelperStep, Workflow } from "@nanoservice-ts/helper";
+import type { TriggerOpts } from "@nanoservice-ts/helper/dist/types/TriggerOpts";
+import type { WorkflowOpts } from "@nanoservice-ts/helper/dist/types/WorkflowOpts";
 import type { ParamsDictionary } from "@nanoservice-ts/runner";
-import type { NodeBase, Step } from "@nanoservice-ts/shared";
-import type { Request } from "express";
+import NodeTypes from "./types/NodeTypes";
+import type RuntimeWorkflow from "./types/RuntimeWorkflow";
+import type WorkflowDefinition from "./types/WorkflowDefinition";
 
-export function validateRoute(dynamicRoute: string, actualRoute: string) {
-	if (!dynamicRoute || !actualRoute) return false;
-	// Convert dynamicRoute to a regex pattern
-	const regexPattern = dynamicRoute
-		.replace(/\/:\w+\?/g, "(?:/([^/]+)?)?") // Optional parameter handling
-		.replace(/\/:\w+/g, "/([^/]+)")
-		.replace(/\*/g, ".*");
-
-	// Create a new RegExp to match the dynamic route pattern
-	const dynamicRouteRegExp = new RegExp(`^${regexPattern}$`);
-	// Test the actual route against the dynamic route pattern
-	return dynamicRouteRegExp.test(actualRoute);
+export function toHelperResponse(workflow: WorkflowDefinition): HelperResponse {
+	const helper = new HelperResponse();
+	helper.setConfig(workflow as unknown as WorkflowOpts);
+	return helper;
 }
 
-export function handleDynamicRoute(dynamicRoute: string, req: Request): ParamsDictionary {
-	// Extract the parameter names from the dynamic route pattern
-	const paramNames = dynamicRoute.match(/:(\w+)/g)?.map((name: string) => name.substring(1));
-	if (paramNames) {
-		// Create a new RegExp to match the dynamic route pattern
-		const dynamicRouteRegExp = new RegExp(`^${dynamicRoute.replace(/:\w+/g, "([^\\/]+)")}$`);
-		// Test the actual route against the dynamic route pattern
-		const match = req.path.match(dynamicRouteRegExp);
-		if (match) {
-			// Extract the parameter values from the actual route
-			const params = match.slice(1);
-			// Add the parameter names and values to the request object
-			paramNames.forEach((name: string | number, index: number) => {
-				req.params[name] = params[index];
-			});
-		} else {
-			const params = req.path.split("/");
-			const dynamicRouteSplitted = dynamicRoute.split("/");
-			dynamicRouteSplitted.forEach((name: string, i: number) => {
-				if (name.startsWith(":")) req.params[name.replace(":", "").replace("?", "")] = params[i];
-			});
-		}
+// Single step workflow running a node requested by a remote caller (x-nanoservice-execute-node or gRPC)
+export function remoteNodeWorkflow(runtimeWorkflow: RuntimeWorkflow, nodeName: string): HelperStep {
+	const workflowModel = runtimeWorkflow.workflow;
+	const node_type = (workflowModel.steps[0] as unknown as ParamsDictionary).type;
+	let set_node_type: NodeTypes = NodeTypes.MODULE;
+	switch (node_type) {
+		case "runtime.python3":
+			set_node_type = NodeTypes.PYTHON3;
+			break;
+		case "local":
+			set_node_type = NodeTypes.LOCAL;
+			break;
+		default:
+			set_node_type = NodeTypes.MODULE;
+			break;
 	}
 
-	return req.params;
-}
+	const trigger = Object.keys(workflowModel.trigger)[0];
+	const trigger_config = ((workflowModel.trigger as unknown as ParamsDictionary)[trigger] as unknown as TriggerOpts) || {};
 
-export async function nodeResolver(node: Step): Promise<NodeBase> {
-	return new (await import(node.node)).default() as Promise<NodeBase>;
+	return Workflow({
+		name: `Remote Node: ${nodeName}`,
+		version: "1.0.0",
+		description: "Remote Node",
+	})
+		.addTrigger((trigger as unknown as "http") || "grpc", trigger_config)
+		.addStep({
+			name: "node",
+			node: nodeName,
+			type: set_node_type,
+			inputs: ((workflowModel.nodes as unknown as ParamsDictionary).node as unknown as ParamsDictionary).inputs,
+		});
 }
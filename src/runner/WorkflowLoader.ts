@@ -0,0 +1,220 @@
+import fs from "node:fs";
+import path from "node:path";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { TomlError, parse as parseToml } from "smol-toml";
+import { YAMLParseError, parse as parseYaml } from "yaml";
+import WorkflowParseError from "./WorkflowParseError";
+import type LoadedWorkflow from "./types/LoadedWorkflow";
+import type WorkflowDefinition from "./types/WorkflowDefinition";
+import type { WorkflowStep } from "./types/WorkflowDefinition";
+import type WorkflowFormat from "./types/WorkflowFormat";
+
+const EXTENSIONS: { [key: string]: WorkflowFormat } = {
+	".json": "json",
+	".yaml": "yaml",
+	".yml": "yaml",
+	".toml": "toml",
+	".xml": "xml",
+};
+
+// When the same workflow name exists in several formats, the first one wins
+const PRECEDENCE: WorkflowFormat[] = ["json", "yaml", "toml", "xml"];
+
+/**
+ * Reads workflows from `<root>/<format>/<name>.<ext>` and parses every supported
+ * format into the same WorkflowDefinition model.
+ */
+export default class WorkflowLoader {
+	private root: string;
+
+	constructor(root?: string) {
+		this.root = root || process.env.WORKFLOWS_PATH || path.resolve(process.cwd(), "workflows");
+	}
+
+	getRoot(): string {
+		return this.root;
+	}
+
+	static formatOf(file: string): WorkflowFormat | undefined {
+		return EXTENSIONS[path.extname(file).toLowerCase()];
+	}
+
+	static nameOf(file: string): string {
+		return path.basename(file, path.extname(file));
+	}
+
+	files(): string[] {
+		const files: string[] = [];
+
+		for (const format of PRECEDENCE) {
+			const directory = path.join(this.root, format);
+			if (!fs.existsSync(directory)) continue;
+
+			for (const file of fs.readdirSync(directory).sort()) {
+				if (WorkflowLoader.formatOf(file) === format) files.push(path.join(directory, file));
+			}
+		}
+
+		return files;
+	}
+
+	/*
+	 * Returns the file that currently provides the workflow, following the format precedence.
+	 */
+	resolve(name: string): string | undefined {
+		return this.files().find((file) => WorkflowLoader.nameOf(file) === name);
+	}
+
+	loadAll(exclude: string[] = []): { workflows: LoadedWorkflow[]; errors: WorkflowParseError[] } {
+		const workflows: LoadedWorkflow[] = [];
+		const errors: WorkflowParseError[] = [];
+		const seen = new Set<string>();
+
+		for (const file of this.files()) {
+			const name = WorkflowLoader.nameOf(file);
+			if (seen.has(name) || exclude.includes(name)) continue;
+
+			try {
+				workflows.push(this.load(file));
+				seen.add(name);
+			} catch (e: unknown) {
+				errors.push(
+					e instanceof WorkflowParseError
+						? e
+						: new WorkflowParseError((e as Error).message, file, WorkflowLoader.formatOf(file) as WorkflowFormat),
+				);
+			}
+		}
+
+		return { workflows, errors };
+	}
+
+	load(file: string): LoadedWorkflow {
+		const format = WorkflowLoader.formatOf(file);
+		if (format === undefined) throw new Error(`Unsupported workflow file: ${file}`);
+
+		return {
+			name: WorkflowLoader.nameOf(file),
+			file,
+			format,
+			definition: WorkflowLoader.parse(fs.readFileSync(file, "utf8"), format, file),
+		};
+	}
+
+	static parse(content: string, format: WorkflowFormat, file = "<inline>"): WorkflowDefinition {
+		let raw: unknown;
+
+		switch (format) {
+			case "json":
+				raw = WorkflowLoader.parseJson(content, file);
+				break;
+			case "yaml":
+				raw = WorkflowLoader.parseYaml(content, file);
+				break;
+			case "toml":
+				raw = WorkflowLoader.parseToml(content, file);
+				break;
+			case "xml":
+				raw = WorkflowLoader.parseXml(content, file);
+				break;
+			default:
+				throw new Error(`Unsupported workflow format: ${format}`);
+		}
+
+		return WorkflowLoader.normalize(raw, format, file);
+	}
+
+	private static parseJson(content: string, file: string): unknown {
+		try {
+			return JSON.parse(content);
+		} catch (e: unknown) {
+			const message = (e as Error).message;
+			const lineColumn = message.match(/line (\d+) column (\d+)/);
+			if (lineColumn) {
+				throw new WorkflowParseError(message, file, "json", Number(lineColumn[1]), Number(lineColumn[2]));
+			}
+
+			const position = message.match(/position (\d+)/);
+			if (position) {
+				const before = content.substring(0, Number(position[1])).split("\n");
+				throw new WorkflowParseError(message, file, "json", before.length, before[before.length - 1].length + 1);
+			}
+
+			throw new WorkflowParseError(message, file, "json");
+		}
+	}
+
+	private static parseYaml(content: string, file: string): unknown {
+		try {
+			return parseYaml(content);
+		} catch (e: unknown) {
+			if (e instanceof YAMLParseError) {
+				const position = e.linePos?.[0];
+				throw new WorkflowParseError(e.message.split("\n")[0], file, "yaml", position?.line, position?.col);
+			}
+			throw e;
+		}
+	}
+
+	private static parseToml(content: string, file: string): unknown {
+		try {
+			return parseToml(content);
+		} catch (e: unknown) {
+			if (e instanceof TomlError) {
+				throw new WorkflowParseError(e.message.split("\n")[0], file, "toml", e.line, e.column);
+			}
+			throw e;
+		}
+	}
+
+	private static parseXml(content: string, file: string): unknown {
+		// Workflow files may omit the root element, so everything is wrapped in one. The XML
+		// declaration is blanked out (keeping its line breaks) so reported lines stay accurate.
+		const body = content.replace(/^\s*<\?xml[^>]*\?>/, (declaration) => declaration.replace(/[^\n]/g, ""));
+		const document = `<workflow>${body}</workflow>`;
+
+		const validation = XMLValidator.validate(document);
+		if (validation !== true) {
+			const { msg, line, col } = validation.err;
+			throw new WorkflowParseError(msg, file, "xml", line, line === 1 ? col - "<workflow>".length : col);
+		}
+
+		let parsed = new XMLParser({ ignoreAttributes: true }).parse(document).workflow;
+		if (parsed && typeof parsed === "object" && Object.keys(parsed).length === 1 && parsed.workflow) {
+			parsed = parsed.workflow;
+		}
+
+		// <steps> holds either one step or a list of <step> elements
+		if (parsed?.steps?.step !== undefined) parsed.steps = parsed.steps.step;
+
+		return parsed;
+	}
+
+	private static normalize(raw: unknown, format: WorkflowFormat, file: string): WorkflowDefinition {
+		if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+			throw new WorkflowParseError("workflow must be an object", file, format);
+		}
+
+		const workflow = raw as Record<string, unknown>;
+		if (workflow.trigger === null || typeof workflow.trigger !== "object") {
+			throw new WorkflowParseError("workflow must declare a trigger", file, format);
+		}
+
+		let steps = workflow.steps ?? [];
+		if (!Array.isArray(steps)) steps = [steps];
+		for (const [index, step] of (steps as WorkflowStep[]).entries()) {
+			if (!step || typeof step.name !== "string" || typeof step.node !== "string") {
+				throw new WorkflowParseError(`step ${index} must have a name and a node`, file, format);
+			}
+		}
+
+		return {
+			...workflow,
+			name: String(workflow.name ?? WorkflowLoader.nameOf(file)),
+			version: String(workflow.version ?? "1.0.0"),
+			trigger: workflow.trigger as WorkflowDefinition["trigger"],
+			steps: steps as WorkflowStep[],
+			nodes: (workflow.nodes as WorkflowDefinition["nodes"]) ?? {},
+		} as WorkflowDefinition;
+	}
+}
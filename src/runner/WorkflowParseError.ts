@@ -0,0 +1,15 @@
+import type WorkflowFormat from "./types/WorkflowFormat";
+
+export default class WorkflowParseError extends Error {
+	constructor(
+		public reason: string,
+		public file: string,
+		public format: WorkflowFormat,
+		public line?: number,
+		public column?: number,
+	) {
+		const location = line !== undefined ? `:${line}${column !== undefined ? `:${column}` : ""}` : "";
+		super(`Invalid ${format.toUpperCase()} workflow ${file}${location}: ${reason}`);
+		this.name = "WorkflowParseError";
+	}
+}
@@ -0,0 +1,41 @@
+import type WorkflowRunStats from "./types/WorkflowRunStats";
+
+type Totals = WorkflowRunStats & { total_duration_ms: number };
+
+/**
+ * In-process request counters per workflow path, shown by the admin API.
+ * Prometheus keeps the history, these only cover the life of the process.
+ */
+export default class WorkflowStats {
+	private totals: Map<string, Totals> = new Map();
+
+	record(workflow: string, status: number, duration: number): void {
+		const totals = this.totalsOf(workflow);
+		totals.requests++;
+		if (status >= 400) totals.errors++;
+		totals.last_status = status;
+		totals.last_run_at = new Date().toISOString();
+		totals.total_duration_ms += duration;
+		totals.max_duration_ms = Math.max(totals.max_duration_ms ?? 0, Number(duration.toFixed(2)));
+	}
+
+	get(workflow: string): WorkflowRunStats {
+		const { total_duration_ms, ...stats } = this.totals.get(workflow) ?? this.empty();
+		if (stats.requests > 0) stats.avg_duration_ms = Number((total_duration_ms / stats.requests).toFixed(2));
+
+		return stats;
+	}
+
+	private totalsOf(workflow: string): Totals {
+		let totals = this.totals.get(workflow);
+		if (totals === undefined) {
+			totals = this.empty();
+			this.totals.set(workflow, totals);
+		}
+		return totals;
+	}
+
+	private empty(): Totals {
+		return { requests: 0, errors: 0, total_duration_ms: 0 };
+	}
+}
@@ -0,0 +1,153 @@
+import type { Configuration } from "@nanoservice-ts/runner";
+import type { Context, ResponseContext } from "@nanoservice-ts/shared";
+import { type Span, SpanStatusCode, type Tracer, context, metrics, trace } from "@opentelemetry/api";
+import { wrapSteps } from "./StepInstrumentation";
+import { withStep } from "./TraceContext";
+import type WorkflowStats from "./WorkflowStats";
+
+type Outcome = {
+	workflow_path: string;
+	workflow_name?: string;
+	workflow_version?: string;
+	status: number;
+	// Traffic split variant that served the request
+	variant?: string;
+};
+
+/**
+ * Request and step level telemetry shared by the triggers.
+ *
+ * Every finished request is counted in `workflow_requests` and timed in `workflow_duration`,
+ * whatever its outcome, while `workflow_in_flight` tracks the requests being processed.
+ * Each executed step gets a child span of the request span and a `node_duration` sample.
+ * Durations are in milliseconds.
+ */
+export default class WorkflowTelemetry {
+	private meter = metrics.getMeter("default");
+	private requests = this.meter.createCounter("workflow_requests", {
+		description: "Workflow requests by outcome",
+	});
+	private workflowDuration = this.meter.createHistogram("workflow_duration", {
+		description: "Workflow request duration in milliseconds",
+	});
+	private nodeDuration = this.meter.createHistogram("node_duration", {
+		description: "Node execution duration in milliseconds",
+	});
+	private inFlight = this.meter.createUpDownCounter("workflow_in_flight", {
+		description: "Workflow requests being processed",
+	});
+
+	constructor(
+		private tracer: Tracer,
+		private transport: string,
+		private stats?: WorkflowStats,
+	) {}
+
+	// Marks a request as in flight, the returned function records how it ended
+	begin(): (outcome: Outcome) => void {
+		const start = performance.now();
+		const base = { env: process.env.NODE_ENV, transport: this.transport };
+		this.inFlight.add(1, base);
+
+		let ended = false;
+		return (outcome: Outcome) => {
+			if (ended) return;
+			ended = true;
+
+			const attributes = {
+				...base,
+				workflow_path: outcome.workflow_path,
+				workflow_name: outcome.workflow_name || "unknown",
+				workflow_version: outcome.workflow_version || "unknown",
+				status: outcome.status,
+				success: outcome.status < 400,
+				variant: outcome.variant || "none",
+			};
+			const duration = performance.now() - start;
+			this.inFlight.add(-1, base);
+			this.requests.add(1, attributes);
+			this.workflowDuration.record(duration, attributes);
+			if (outcome.workflow_path !== "unknown") this.stats?.record(outcome.workflow_path, outcome.status, duration);
+		};
+	}
+
+	traceSteps(configuration: Configuration, parent: Span, workflowPath: string): void {
+		const types = stepTypes(configuration.workflow);
+		let sequence = 0;
+
+		wrapSteps(configuration, (instance, original) => async (ctx: Context, step?: unknown) => {
+			const attributes = {
+				env: process.env.NODE_ENV,
+				workflow_path: workflowPath,
+				node_name: instance.name,
+				node: instance.node ?? instance.name,
+				node_type: types.get(instance.name) || "unknown",
+			};
+			const config = (ctx.config as Record<string, { inputs?: unknown }> | undefined)?.[instance.name];
+
+			// Steps nested in a condition or flow become children of that step's span
+			const active = context.active();
+			const parentContext = trace.getSpan(active) ? active : trace.setSpan(active, parent);
+			const span = this.tracer.startSpan(
+				instance.name,
+				{ attributes: { ...attributes, step_index: sequence++, input_size: sizeOf(config?.inputs ?? config) } },
+				parentContext,
+			);
+			const start = performance.now();
+			let failed = false;
+
+			try {
+				const stepContext = withStep(trace.setSpan(parentContext, span), instance.name);
+				const response = await context.with(stepContext, () => original(ctx, step));
+
+				// NanoService nodes return their failures in the response, the runner throws them afterwards
+				const result = response?.data as ResponseContext | undefined;
+				if (result?.error) {
+					failed = true;
+					this.fail(span, result.error);
+				} else {
+					span.setAttribute("output_size", sizeOf(result?.data ?? result));
+					span.setStatus({ code: SpanStatusCode.OK });
+				}
+				return response;
+			} catch (error: unknown) {
+				failed = true;
+				this.fail(span, error);
+				throw error;
+			} finally {
+				this.nodeDuration.record(performance.now() - start, { ...attributes, success: !failed });
+				span.end();
+			}
+		});
+	}
+
+	private fail(span: Span, error: unknown) {
+		const exception = error instanceof Error ? error : new Error(String((error as Error)?.message ?? error));
+		span.recordException(exception);
+		span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+	}
+}
+
+// Serialized size in bytes, 0 when there is nothing to measure
+function sizeOf(value: unknown): number {
+	if (value === undefined || value === null) return 0;
+	if (Buffer.isBuffer(value)) return value.length;
+
+	try {
+		return Buffer.byteLength(typeof value === "string" ? value : JSON.stringify(value));
+	} catch {
+		return 0;
+	}
+}
+
+function stepTypes(definition: unknown, types: Map<string, string> = new Map()): Map<string, string> {
+	if (definition === null || typeof definition !== "object") return types;
+
+	const candidate = definition as Record<string, unknown>;
+	if (typeof candidate.name === "string" && typeof candidate.node === "string" && typeof candidate.type === "string") {
+		types.set(candidate.name, candidate.type);
+	}
+
+	for (const value of Object.values(candidate)) stepTypes(value, types);
+	return types;
+}
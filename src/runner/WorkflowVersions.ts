@@ -0,0 +1,122 @@
+import type { GlobalOptions } from "@nanoservice-ts/runner";
+import type { Request } from "express";
+import type WorkflowVersion from "./types/WorkflowVersion";
+
+// Path prefix selecting a version, e.g. /v2/company-analytics
+const VERSION_PREFIX = /^v(\d+(?:\.\d+){0,2})$/;
+
+/**
+ * Versions of the same workflow deployed side by side.
+ *
+ * A workflow file named `<name>@<label>` (e.g. `company-analytics@2.json`) is another version
+ * of `<name>`, identified by its `version` field. Requests pick one with the `Accept-Version`
+ * header or a `/v<version>` path prefix, matching by prefix (2 or 2.x matches 2.1.0), and the
+ * highest matching version runs. Without either, WORKFLOW_DEFAULT_VERSION decides: `latest`
+ * (the default) or a version, for every workflow or per workflow as `name=version` entries.
+ */
+export default class WorkflowVersions {
+	private versions: Map<string, WorkflowVersion[]> = new Map();
+
+	constructor(private nodeMap: GlobalOptions) {}
+
+	static baseName(key: string): string {
+		return key.split("@")[0];
+	}
+
+	// Re-reads the versions from the node map, e.g. after workflows were reloaded
+	sync() {
+		const versions = new Map<string, WorkflowVersion[]>();
+		for (const [key, workflow] of Object.entries(this.nodeMap.workflows || {})) {
+			const version = versionOf(workflow.toJson());
+			const name = WorkflowVersions.baseName(key);
+			versions.set(name, [...(versions.get(name) || []), { key, version }]);
+		}
+
+		for (const candidates of versions.values()) candidates.sort((a, b) => compare(b.version, a.version));
+		this.versions = versions;
+	}
+
+	has(name: string): boolean {
+		return this.versions.has(name);
+	}
+
+	list(name: string): WorkflowVersion[] {
+		return this.versions.get(name) || [];
+	}
+
+	/*
+	 * Workflow name and version asked for by the request. A `/v2/<workflow>` prefix is removed
+	 * from the request URL so the rest of the path matches the trigger as usual.
+	 */
+	requested(req: Request, workflow: string | undefined): { workflow: string | undefined; version?: string } {
+		const prefix = workflow?.match(VERSION_PREFIX);
+		if (prefix && workflow !== undefined && !this.has(workflow)) {
+			const [, name, ...rest] = req.path.split("/");
+			if (name) {
+				const query = req.url.indexOf("?") >= 0 ? req.url.slice(req.url.indexOf("?")) : "";
+				req.url = `/${rest.join("/")}${query}`;
+				return { workflow: name, version: prefix[1] };
+			}
+		}
+
+		const header = req.headers["accept-version"];
+		const version = typeof header === "string" && header.trim() !== "" ? header.trim() : undefined;
+		return { workflow, version };
+	}
+
+	// Undefined when the workflow does not exist or has no version matching the requested one
+	resolve(name: string, requested?: string): WorkflowVersion | undefined {
+		const candidates = this.list(name);
+		const wanted = requested ?? this.defaultFor(name);
+		if (wanted === "latest") return candidates[0];
+
+		// A default that matches nothing falls back to the latest version
+		const match = candidates.find((candidate) => matches(candidate.version, wanted));
+		return match ?? (requested === undefined ? candidates[0] : undefined);
+	}
+
+	private defaultFor(name: string): string {
+		const entries = (process.env.WORKFLOW_DEFAULT_VERSION || "")
+			.split(",")
+			.map((entry) => entry.trim())
+			.filter((entry) => entry !== "");
+
+		const own = entries.find((entry) => entry.startsWith(`${name}=`));
+		if (own !== undefined) return own.slice(name.length + 1).trim();
+
+		return entries.find((entry) => !entry.includes("=")) || "latest";
+	}
+}
+
+function versionOf(json: string): string {
+	try {
+		return String(JSON.parse(json).version ?? "1.0.0");
+	} catch {
+		return "1.0.0";
+	}
+}
+
+function segments(version: string): string[] {
+	return version
+		.trim()
+		.replace(/^[v=^~]/i, "")
+		.replace(/(\.[x*])+$/i, "")
+		.split(".");
+}
+
+function matches(version: string, requested: string): boolean {
+	const wanted = segments(requested);
+	const actual = segments(version);
+	return wanted.every((segment, index) => segment === actual[index]);
+}
+
+function compare(a: string, b: string): number {
+	const left = segments(a);
+	const right = segments(b);
+	for (let index = 0; index < Math.max(left.length, right.length); index++) {
+		const difference = (Number(left[index]) || 0) - (Number(right[index]) || 0);
+		if (difference !== 0) return difference;
+	}
+
+	return 0;
+}
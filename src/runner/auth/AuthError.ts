@@ -0,0 +1,10 @@
+export default class AuthError extends Error {
+	constructor(
+		message: string,
+		public status: 401 | 403 = 401,
+		public challenge = "Bearer",
+	) {
+		super(message);
+		this.name = "AuthError";
+	}
+}
@@ -0,0 +1,65 @@
+import type { Request } from "express";
+import type AuthConfig from "../types/AuthConfig";
+import type AuthPrincipal from "../types/AuthPrincipal";
+import type Authenticator from "../types/Authenticator";
+import type HttpTriggerConfig from "../types/HttpTriggerConfig";
+import ApiKeyAuthenticator from "./ApiKeyAuthenticator";
+import AuthError from "./AuthError";
+import JwtAuthenticator from "./JwtAuthenticator";
+
+/**
+ * Resolves and runs the authenticator configured for a workflow (`trigger.http.auth`),
+ * and guards remote node execution with its own allowlist and auth settings.
+ *
+ * Custom schemes can be added with `register("my-scheme", authenticator)`.
+ */
+export default class AuthManager {
+	private authenticators: Map<string, Authenticator> = new Map<string, Authenticator>([
+		["api_key", new ApiKeyAuthenticator()],
+		["jwt", new JwtAuthenticator()],
+	]);
+
+	register(type: string, authenticator: Authenticator): void {
+		this.authenticators.set(type, authenticator);
+	}
+
+	configFor(trigger: HttpTriggerConfig): AuthConfig | undefined {
+		if (trigger.auth) return trigger.auth.type === "none" ? undefined : trigger.auth;
+
+		// Legacy shorthand from the runner's TriggerHttp type
+		if (trigger.jwt_secret) return { type: "jwt", algorithms: ["HS256"], secret: trigger.jwt_secret };
+
+		return undefined;
+	}
+
+	async authenticate(req: Request, config: AuthConfig | undefined): Promise<AuthPrincipal | undefined> {
+		if (config === undefined) return undefined;
+
+		const authenticator = this.authenticators.get(config.type);
+		if (!authenticator) throw new Error(`Unknown auth type: ${config.type}`);
+
+		return authenticator.authenticate(req, config);
+	}
+
+	/*
+	 * Remote node execution (x-nanoservice-execute-node) is disabled unless the node is listed in
+	 * REMOTE_NODES_ALLOWLIST (comma separated, or * for every node).
+	 */
+	authorizeRemoteNode(node: string): void {
+		const allowlist = (process.env.REMOTE_NODES_ALLOWLIST || "")
+			.split(",")
+			.map((name) => name.trim())
+			.filter((name) => name !== "");
+
+		if (!allowlist.includes("*") && !allowlist.includes(node)) {
+			throw new AuthError(`Remote execution of node ${node} is not allowed`, 403);
+		}
+	}
+
+	remoteNodeConfig(): AuthConfig | undefined {
+		const config = process.env.REMOTE_NODES_AUTH;
+		if (!config) return undefined;
+
+		return JSON.parse(config) as AuthConfig;
+	}
+}
@@ -0,0 +1,59 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Request } from "express";
+import jwt, { type Algorithm, type JwtPayload } from "jsonwebtoken";
+import type AuthConfig from "../types/AuthConfig";
+import type AuthPrincipal from "../types/AuthPrincipal";
+import type Authenticator from "../types/Authenticator";
+import AuthError from "./AuthError";
+import { bearerToken } from "./credentials";
+
+const SUPPORTED_ALGORITHMS = ["HS256", "RS256"];
+
+/**
+ * Bearer JWTs verified against local keys: an HS256 shared secret and/or an RS256 public key.
+ * The key is picked from the token's algorithm, and only the configured algorithms are accepted.
+ */
+export default class JwtAuthenticator implements Authenticator {
+	private publicKeys: Map<string, string> = new Map();
+
+	async authenticate(req: Request, config: AuthConfig): Promise<AuthPrincipal> {
+		const token = bearerToken(req);
+		if (!token) throw new AuthError("Missing bearer token");
+
+		const algorithms = (config.algorithms || ["HS256"]).filter((algorithm) =>
+			SUPPORTED_ALGORITHMS.includes(algorithm),
+		) as Algorithm[];
+
+		const decoded = jwt.decode(token, { complete: true });
+		const algorithm = decoded?.header.alg as Algorithm | undefined;
+		if (!algorithm || !algorithms.includes(algorithm)) throw new AuthError("Unsupported token algorithm");
+
+		const key =
+			algorithm === "RS256" ? this.publicKey(config) : config.secret || process.env[config.secret_env || "JWT_SECRET"];
+		if (!key) throw new AuthError(`No key configured for ${algorithm}`);
+
+		let payload: JwtPayload;
+		try {
+			payload = jwt.verify(token, key, {
+				algorithms: [algorithm],
+				issuer: config.issuer,
+				audience: config.audience,
+			}) as JwtPayload;
+		} catch (e: unknown) {
+			throw new AuthError(`Invalid token: ${(e as Error).message}`);
+		}
+
+		return { type: "jwt", subject: `${payload.sub ?? ""}`, claims: payload };
+	}
+
+	private publicKey(config: AuthConfig): string | undefined {
+		if (config.public_key_file) {
+			const file = path.resolve(process.cwd(), config.public_key_file);
+			if (!this.publicKeys.has(file)) this.publicKeys.set(file, fs.readFileSync(file, "utf8"));
+			return this.publicKeys.get(file);
+		}
+
+		return process.env[config.public_key_env || "JWT_PUBLIC_KEY"]?.replace(/\\n/g, "\n");
+	}
+}
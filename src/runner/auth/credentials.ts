@@ -0,0 +1,9 @@
+import type { Request } from "express";
+
+export function bearerToken(req: Request): string | undefined {
+	const header = req.headers.authorization;
+	if (!header) return undefined;
+
+	const [scheme, token] = header.split(" ");
+	return scheme?.toLowerCase() === "bearer" && token ? token.trim() : undefined;
+}
@@ -0,0 +1,152 @@
+import { createHash } from "node:crypto";
+import type { Request, Response } from "express";
+import Logger from "../Logger";
+import { httpError } from "../Problem";
+import type AuthPrincipal from "../types/AuthPrincipal";
+import type IdempotencyRecord from "../types/IdempotencyRecord";
+import type { StoredResponse } from "../types/IdempotencyRecord";
+import type IdempotencyStore from "../types/IdempotencyStore";
+import MemoryIdempotencyStore from "./MemoryIdempotencyStore";
+import MongoIdempotencyStore from "./MongoIdempotencyStore";
+
+const SAFE_METHODS = ["get", "head", "options"];
+const MAX_KEY_LENGTH = 255;
+// Set again by Express and the HTTP server on every response
+const TRANSIENT_HEADERS = ["connection", "keep-alive", "transfer-encoding", "date", "x-powered-by"];
+
+/**
+ * `Idempotency-Key` support for requests that may change state (anything but GET, HEAD and OPTIONS).
+ *
+ * The first response for a workflow, authenticated caller and key is stored (status, headers and
+ * body) and replayed on retries with `Idempotent-Replayed: true`. A retry arriving while the first
+ * request is still running gets a 409, and reusing a key for a different request gets a 422.
+ * Server errors (5xx) are not stored, the key is freed so the request can be retried.
+ */
+export default class IdempotencyManager {
+	private store: IdempotencyStore;
+	private ttl: number;
+	private logger = new Logger();
+
+	constructor(store?: IdempotencyStore) {
+		this.store = store ?? IdempotencyManager.storeFromEnv();
+		this.ttl = Number(process.env.IDEMPOTENCY_TTL_SECONDS || 86400) * 1000;
+	}
+
+	static storeFromEnv(): IdempotencyStore {
+		switch (process.env.IDEMPOTENCY_STORE) {
+			case "mongodb":
+				return new MongoIdempotencyStore();
+			default:
+				return new MemoryIdempotencyStore(Number(process.env.IDEMPOTENCY_MAX_KEYS || 10000));
+		}
+	}
+
+	static keyOf(req: Request): string | undefined {
+		if (SAFE_METHODS.includes(req.method.toLowerCase())) return undefined;
+
+		const key = req.headers["idempotency-key"];
+		if (typeof key !== "string" || key.trim() === "") return undefined;
+
+		return key.trim();
+	}
+
+	setStore(store: IdempotencyStore): void {
+		this.store = store;
+	}
+
+	// Returns true when the request was answered with the stored response
+	async handle(req: Request, res: Response, workflow: string, key: string): Promise<boolean> {
+		if (key.length > MAX_KEY_LENGTH) {
+			throw httpError(400, `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+		}
+
+		// Scoped to the authenticated caller, two callers may pick the same key
+		const principal = (req as Request & { auth?: AuthPrincipal }).auth;
+		const record: IdempotencyRecord = {
+			key: JSON.stringify([workflow, principal ? `${principal.type}:${principal.subject}` : null, key]),
+			fingerprint: this.fingerprint(req),
+			status: "running",
+			created_at: new Date().toISOString(),
+			expires_at: Date.now() + this.ttl,
+		};
+
+		const existing = await this.store.reserve(record);
+		if (existing === undefined) {
+			this.capture(res, record.key);
+			return false;
+		}
+
+		if (existing.fingerprint !== record.fingerprint) {
+			throw httpError(422, `Idempotency-Key ${key} was already used with a different request`);
+		}
+		if (existing.status === "running" || existing.response === undefined) {
+			res.setHeader("Retry-After", "1");
+			throw httpError(409, `A request with Idempotency-Key ${key} is still running`);
+		}
+
+		this.replay(res, existing.response);
+		return true;
+	}
+
+	private fingerprint(req: Request): string {
+		const body = typeof req.body === "string" ? req.body : JSON.stringify(req.body ?? null);
+
+		return createHash("sha256")
+			.update(`${req.method} ${req.originalUrl.split("?")[0]}\n`)
+			.update(body)
+			.digest("hex");
+	}
+
+	// Stores what the trigger sends, or frees the key on a server error or if the client went away first
+	private capture(res: Response, key: string) {
+		let body: unknown;
+		const send = res.send.bind(res);
+
+		// res.json() calls send() again with the serialized body, so the last call holds the payload
+		res.send = ((chunk?: unknown) => {
+			body = chunk;
+			return send(chunk);
+		}) as Response["send"];
+
+		res.on("finish", () => {
+			// A failed or timed out run may succeed when retried, replaying it would pin the failure
+			if (res.statusCode >= 500) {
+				this.store
+					.release(key)
+					.catch((e: unknown) => this.logger.error(`Unable to release ${key}: ${(e as Error).message}`));
+				return;
+			}
+			this.store
+				.complete(key, this.toStoredResponse(res, body))
+				.catch((e: unknown) => this.logger.error(`Unable to store the response for ${key}: ${(e as Error).message}`));
+		});
+		res.on("close", () => {
+			if (res.writableFinished) return;
+			this.store
+				.release(key)
+				.catch((e: unknown) => this.logger.error(`Unable to release ${key}: ${(e as Error).message}`));
+		});
+	}
+
+	private toStoredResponse(res: Response, body: unknown): StoredResponse {
+		const headers: Record<string, string | string[]> = {};
+		for (const [name, value] of Object.entries(res.getHeaders())) {
+			if (value === undefined || TRANSIENT_HEADERS.includes(name)) continue;
+			headers[name] = Array.isArray(value) ? value : String(value);
+		}
+
+		if (Buffer.isBuffer(body)) {
+			return { status: res.statusCode, headers, body: body.toString("base64"), encoding: "base64" };
+		}
+
+		const text = body === undefined ? "" : typeof body === "string" ? body : JSON.stringify(body);
+		return { status: res.statusCode, headers, body: text, encoding: "utf8" };
+	}
+
+	private replay(res: Response, response: StoredResponse) {
+		for (const [name, value] of Object.entries(response.headers)) res.setHeader(name, value);
+		res.setHeader("Idempotent-Replayed", "true");
+
+		res.status(response.status).send(response.encoding === "base64" ? Buffer.from(response.body, "base64") : response.body);
+	}
+}
@@ -0,0 +1,47 @@
+import type IdempotencyRecord from "../types/IdempotencyRecord";
+import type { StoredResponse } from "../types/IdempotencyRecord";
+import type IdempotencyStore from "../types/IdempotencyStore";
+
+/**
+ * Default idempotency store. Keeps at most `maxRecords` keys and drops them past their expiry,
+ * oldest first. Only suitable for a single instance.
+ */
+export default class MemoryIdempotencyStore implements IdempotencyStore {
+	private records: Map<string, IdempotencyRecord> = new Map();
+
+	constructor(private maxRecords = 10000) {}
+
+	async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+		this.evict();
+
+		const existing = this.records.get(record.key);
+		if (existing) return existing;
+
+		this.records.set(record.key, record);
+		return undefined;
+	}
+
+	async complete(key: string, response: StoredResponse): Promise<void> {
+		const record = this.records.get(key);
+		if (!record) return;
+
+		record.status = "completed";
+		record.response = response;
+	}
+
+	async release(key: string): Promise<void> {
+		this.records.delete(key);
+	}
+
+	private evict() {
+		const now = Date.now();
+		for (const [key, record] of this.records) {
+			if (record.expires_at <= now) this.records.delete(key);
+		}
+
+		while (this.records.size >= this.maxRecords) {
+			const oldest = this.records.keys().next().value as string;
+			this.records.delete(oldest);
+		}
+	}
+}
@@ -0,0 +1,69 @@
+import { type Collection, MongoClient, MongoServerError } from "mongodb";
+import type IdempotencyRecord from "../types/IdempotencyRecord";
+import type { StoredResponse } from "../types/IdempotencyRecord";
+import type IdempotencyStore from "../types/IdempotencyStore";
+
+type IdempotencyDocument = IdempotencyRecord & { expires: Date };
+
+/**
+ * Idempotency store shared by every instance, backed by MongoDB (MONGODB_URI / MONGODB_DATABASE).
+ * The unique index on `key` makes the reservation atomic, and a TTL index on `expires` drops old keys.
+ */
+export default class MongoIdempotencyStore implements IdempotencyStore {
+	private collection: Promise<Collection<IdempotencyDocument>> | undefined;
+
+	constructor(
+		private uri = process.env.MONGODB_URI as string,
+		private database = process.env.MONGODB_DATABASE,
+		private collectionName = "workflow_idempotency_keys",
+	) {}
+
+	async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+		const collection = await this.getCollection();
+
+		try {
+			await collection.insertOne({ ...record, expires: new Date(record.expires_at) });
+			return undefined;
+		} catch (e: unknown) {
+			if (!(e instanceof MongoServerError) || e.code !== 11000) throw e;
+		}
+
+		// The key may have expired without the TTL monitor having removed it yet
+		const replaced = await collection.replaceOne(
+			{ key: record.key, expires_at: { $lte: Date.now() } },
+			{ ...record, expires: new Date(record.expires_at) },
+		);
+		if (replaced.modifiedCount > 0) return undefined;
+
+		const existing = await collection.findOne({ key: record.key }, { projection: { _id: 0, expires: 0 } });
+		return (existing as IdempotencyRecord | null) ?? undefined;
+	}
+
+	async complete(key: string, response: StoredResponse): Promise<void> {
+		const collection = await this.getCollection();
+		await collection.updateOne({ key }, { $set: { status: "completed", response } });
+	}
+
+	async release(key: string): Promise<void> {
+		const collection = await this.getCollection();
+		await collection.deleteOne({ key, status: "running" });
+	}
+
+	private getCollection() {
+		if (this.collection === undefined) {
+			this.collection = (async () => {
+				const client = await new MongoClient(this.uri).connect();
+				const collection = client.db(this.database).collection<IdempotencyDocument>(this.collectionName);
+				await collection.createIndex({ key: 1 }, { unique: true });
+				await collection.createIndex({ expires: 1 }, { expireAfterSeconds: 0 });
+				return collection;
+			})();
+			// Allow a later call to retry when the connection failed
+			this.collection.catch(() => {
+				this.collection = undefined;
+			});
+		}
+
+		return this.collection;
+	}
+}
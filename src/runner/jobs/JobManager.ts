@@ -0,0 +1,229 @@
+import express, { type Request, type Response } from "express";
+import { v4 as uuid } from "uuid";
+import Logger from "../Logger";
+import { httpError, sendProblem, toProblem } from "../Problem";
+import AuthError from "../auth/AuthError";
+import type AuthManager from "../auth/AuthManager";
+import type AuthConfig from "../types/AuthConfig";
+import type AuthPrincipal from "../types/AuthPrincipal";
+import type ErrorResponse from "../types/ErrorResponse";
+import type Job from "../types/Job";
+import type JobStore from "../types/JobStore";
+import type StepEvent from "../types/StepEvent";
+import MemoryJobStore from "./MemoryJobStore";
+import MongoJobStore from "./MongoJobStore";
+
+const JOBS_PATH = "/_jobs";
+
+/**
+ * Asynchronous execution for requests sent with `Prefer: respond-async`.
+ *
+ * The trigger answers 202 with the job id, keeps running the workflow and records step
+ * progress and the final response here. Clients poll `GET /_jobs/:id` for the status and
+ * `GET /_jobs/:id/result` for the workflow response.
+ *
+ * Results are kept in the format negotiated by the request (`?format=` or Accept). Jobs outlive
+ * the request, so they are limited by JOBS_TIMEOUT_MS rather than the workflow timeout.
+ *
+ * Job ids are generated here, never taken from the request. Jobs of a workflow using
+ * `trigger.http.auth` are read with the same credentials as the workflow, and only by the
+ * caller that started them; to anyone else they do not exist.
+ */
+export default class JobManager {
+	private store: JobStore;
+	private ttl: number;
+	private updates: Map<string, Promise<void>> = new Map();
+	private logger = new Logger();
+
+	constructor(store?: JobStore) {
+		this.store = store ?? JobManager.storeFromEnv();
+		this.ttl = Number(process.env.JOBS_TTL_SECONDS || 3600) * 1000;
+	}
+
+	static storeFromEnv(): JobStore {
+		switch (process.env.JOBS_STORE) {
+			case "mongodb":
+				return new MongoJobStore();
+			default:
+				return new MemoryJobStore(Number(process.env.JOBS_MAX || 1000));
+		}
+	}
+
+	static isRequested(req: Request): boolean {
+		const prefer = req.headers.prefer;
+		if (typeof prefer !== "string") return false;
+
+		return prefer.split(/[,;]/).some((preference) => preference.trim().toLowerCase() === "respond-async");
+	}
+
+	// No limit unless JOBS_TIMEOUT_MS is set, step timeouts still apply
+	static timeout(): number | undefined {
+		const timeout = Number(process.env.JOBS_TIMEOUT_MS || 0);
+		return Number.isFinite(timeout) && timeout > 0 ? timeout : undefined;
+	}
+
+	getPath(): string {
+		return JOBS_PATH;
+	}
+
+	async create(requestId: string, workflow: string, principal?: AuthPrincipal): Promise<Job> {
+		const now = new Date().toISOString();
+		const job: Job = {
+			id: uuid(),
+			request_id: requestId,
+			workflow,
+			owner: ownerOf(principal),
+			status: "running",
+			created_at: now,
+			updated_at: now,
+			expires_at: Date.now() + this.ttl,
+			steps: [],
+		};
+
+		await this.store.set(job);
+		return job;
+	}
+
+	accepted(res: Response, job: Job): void {
+		res.setHeader("Location", `${JOBS_PATH}/${job.id}`);
+		res.setHeader("Preference-Applied", "respond-async");
+		res.status(202).json(this.summary(job));
+	}
+
+	onStep(id: string): (event: StepEvent) => void {
+		return (event: StepEvent) => {
+			this.update(id, (job) => {
+				if (event.type === "start") {
+					job.steps.push({
+						name: event.step,
+						node: event.node,
+						status: "running",
+						started_at: new Date().toISOString(),
+					});
+					return;
+				}
+
+				const step = [...job.steps].reverse().find((step) => step.name === event.step && step.status === "running");
+				if (step) {
+					step.status = event.type === "finish" ? "succeeded" : "failed";
+					step.duration_ms = event.duration;
+				}
+			});
+		};
+	}
+
+	complete(id: string, contentType: string, data: unknown, disposition?: string): Promise<void> {
+		return this.update(id, (job) => {
+			job.status = "succeeded";
+			job.completed_at = new Date().toISOString();
+			job.result = Buffer.isBuffer(data)
+				? { contentType, data: data.toString("base64"), encoding: "base64", disposition }
+				: { contentType, data, disposition };
+		});
+	}
+
+	fail(id: string, error: ErrorResponse): Promise<void> {
+		return this.update(id, (job) => {
+			job.status = "failed";
+			job.completed_at = new Date().toISOString();
+			job.error = error;
+		});
+	}
+
+	get(id: string): Promise<Job | undefined> {
+		return this.store.get(id);
+	}
+
+	// `authConfigOf` returns the auth of the workflow a job runs, read when the job is polled
+	router(auth: AuthManager, authConfigOf: (workflow: string) => AuthConfig | undefined): express.Router {
+		const router = express.Router();
+
+		router.get("/:id", async (req: Request, res: Response) => {
+			const job = await this.find(req, res, auth, authConfigOf);
+			if (job) res.status(200).json(this.summary(job));
+		});
+
+		router.get("/:id/result", async (req: Request, res: Response) => {
+			const job = await this.find(req, res, auth, authConfigOf);
+			if (!job) return;
+
+			if (job.status === "running") {
+				res.setHeader("Retry-After", "1");
+				sendProblem(res, this.problem(req, httpError(409, `Job ${job.id} is still running`)));
+			} else if (job.status === "failed" && job.error) {
+				sendProblem(res, job.error);
+			} else {
+				const result = job.result;
+				res.setHeader("Content-Type", result?.contentType || "application/json");
+				if (result?.disposition) res.setHeader("Content-Disposition", result.disposition);
+				res.status(200).send(result?.encoding === "base64" ? Buffer.from(result.data as string, "base64") : result?.data);
+			}
+		});
+
+		return router;
+	}
+
+	private async find(
+		req: Request,
+		res: Response,
+		auth: AuthManager,
+		authConfigOf: (workflow: string) => AuthConfig | undefined,
+	): Promise<Job | undefined> {
+		const id = req.params.id as string;
+
+		try {
+			const job = await this.store.get(id);
+			if (job?.owner !== undefined) {
+				const principal = await auth.authenticate(req, authConfigOf(job.workflow));
+				if (ownerOf(principal) !== job.owner) throw httpError(404, `Job not found: ${id}`);
+			}
+
+			if (!job) sendProblem(res, this.problem(req, httpError(404, `Job not found: ${id}`)));
+			return job;
+		} catch (e: unknown) {
+			if (e instanceof AuthError && e.status === 401) res.setHeader("WWW-Authenticate", e.challenge);
+			sendProblem(res, this.problem(req, e instanceof AuthError ? httpError(e.status, e.message) : e));
+			return undefined;
+		}
+	}
+
+	private problem(req: Request, error: unknown): ErrorResponse {
+		return toProblem(error, { request_id: req.params.id as string, instance: req.originalUrl });
+	}
+
+	private summary(job: Job) {
+		const { result, expires_at, owner, ...summary } = job;
+		return {
+			...summary,
+			links: {
+				status: `${JOBS_PATH}/${job.id}`,
+				result: `${JOBS_PATH}/${job.id}/result`,
+			},
+		};
+	}
+
+	// Updates for the same job are applied in order, even with an asynchronous store
+	private update(id: string, mutate: (job: Job) => void): Promise<void> {
+		const previous = this.updates.get(id) ?? Promise.resolve();
+		const next = previous
+			.then(async () => {
+				const job = await this.store.get(id);
+				if (!job) return;
+
+				mutate(job);
+				job.updated_at = new Date().toISOString();
+				await this.store.set(job);
+			})
+			.catch((e: unknown) => this.logger.error(`Unable to update job ${id}: ${(e as Error).message}`))
+			.finally(() => {
+				if (this.updates.get(id) === next) this.updates.delete(id);
+			});
+
+		this.updates.set(id, next);
+		return next;
+	}
+}
+
+function ownerOf(principal: AuthPrincipal | undefined): string | undefined {
+	return principal ? `${principal.type}:${principal.subject}` : undefined;
+}
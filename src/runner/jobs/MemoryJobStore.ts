@@ -0,0 +1,40 @@
+import type Job from "../types/Job";
+import type JobStore from "../types/JobStore";
+
+/**
+ * Default job store. Keeps at most `maxJobs` entries and drops jobs past their expiry,
+ * evicting the least recently updated ones first.
+ */
+export default class MemoryJobStore implements JobStore {
+	private jobs: Map<string, Job> = new Map();
+
+	constructor(private maxJobs = 1000) {}
+
+	async get(id: string): Promise<Job | undefined> {
+		const job = this.jobs.get(id);
+		if (job && job.expires_at <= Date.now()) {
+			this.jobs.delete(id);
+			return undefined;
+		}
+		return job;
+	}
+
+	async set(job: Job): Promise<void> {
+		// Re-inserting keeps the map ordered by last update
+		this.jobs.delete(job.id);
+		this.jobs.set(job.id, job);
+		this.evict();
+	}
+
+	private evict() {
+		const now = Date.now();
+		for (const [id, job] of this.jobs) {
+			if (job.expires_at <= now) this.jobs.delete(id);
+		}
+
+		while (this.jobs.size > this.maxJobs) {
+			const oldest = this.jobs.keys().next().value as string;
+			this.jobs.delete(oldest);
+		}
+	}
+}
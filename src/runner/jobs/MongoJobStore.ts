@@ -0,0 +1,46 @@
+import { type Collection, MongoClient } from "mongodb";
+import type Job from "../types/Job";
+import type JobStore from "../types/JobStore";
+
+/**
+ * Persistent job store backed by MongoDB (MONGODB_URI / MONGODB_DATABASE).
+ * A TTL index on `expires` lets MongoDB remove finished jobs on its own.
+ */
+export default class MongoJobStore implements JobStore {
+	private collection: Promise<Collection<Job & { expires: Date }>> | undefined;
+
+	constructor(
+		private uri = process.env.MONGODB_URI as string,
+		private database = process.env.MONGODB_DATABASE,
+		private collectionName = "workflow_jobs",
+	) {}
+
+	async get(id: string): Promise<Job | undefined> {
+		const collection = await this.getCollection();
+		const job = await collection.findOne({ id }, { projection: { _id: 0, expires: 0 } });
+		return job && job.expires_at > Date.now() ? (job as Job) : undefined;
+	}
+
+	async set(job: Job): Promise<void> {
+		const collection = await this.getCollection();
+		await collection.replaceOne({ id: job.id }, { ...job, expires: new Date(job.expires_at) }, { upsert: true });
+	}
+
+	private getCollection() {
+		if (this.collection === undefined) {
+			this.collection = (async () => {
+				const client = await new MongoClient(this.uri).connect();
+				const collection = client.db(this.database).collection<Job & { expires: Date }>(this.collectionName);
+				await collection.createIndex({ id: 1 }, { unique: true });
+				await collection.createIndex({ expires: 1 }, { expireAfterSeconds: 0 });
+				return collection;
+			})();
+			// Allow a later call to retry when the connection failed
+			this.collection.catch(() => {
+				this.collection = undefined;
+			});
+		}
+
+		return this.collection;
+	}
+}
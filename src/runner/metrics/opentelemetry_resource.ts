@@ -0,0 +1,12 @@
+import { Resource } from "@opentelemetry/resources";
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from "@opentelemetry/semantic-conventions";
+
+// Shared by the metrics and traces, so both are reported under the same service
+const resource = Resource.default().merge(
+	new Resource({
+		[ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || process.env.PROJECT_NAME || "trigger-http",
+		[ATTR_SERVICE_VERSION]: process.env.OTEL_SERVICE_VERSION || process.env.PROJECT_VERSION || "0.0.1",
+	}),
+);
+
+export default resource;
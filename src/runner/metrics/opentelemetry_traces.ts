@@ -1,30 +1,59 @@
 // import { DiagConsoleLogger, DiagLogLevel, diag } from "@opentelemetry/api";
-import { Resource } from "@opentelemetry/resources";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
 import {
 	BatchSpanProcessor,
 	ConsoleSpanExporter,
+	ParentBasedSampler,
 	type SpanExporter,
 	type SpanProcessor,
+	TraceIdRatioBasedSampler,
 } from "@opentelemetry/sdk-trace-base";
-import { WebTracerProvider } from "@opentelemetry/sdk-trace-web";
-import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from "@opentelemetry/semantic-conventions";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import Logger from "../Logger";
+import resource from "./opentelemetry_resource";
 
 // For troubleshooting, set the log level to DiagLogLevel.DEBUG
 // diag.setLogger(new DiagConsoleLogger(), DiagLogLevel.ALL);
 
-const resource = Resource.default().merge(
-	new Resource({
-		[ATTR_SERVICE_NAME]: "trigger-http",
-		[ATTR_SERVICE_VERSION]: "0.0.8",
-	}),
-);
+/*
+ * OTEL_TRACES_EXPORTER selects where spans go:
+ *  - none (default): spans are created and propagated but not exported
+ *  - console: printed to stdout
+ *  - otlp: OTLP/HTTP to OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or OTEL_EXPORTER_OTLP_ENDPOINT,
+ *    e.g. http://tempo:4318 from infra/metrics
+ * OTEL_TRACES_SAMPLER_ARG is the ratio of new traces to sample (1 by default). Requests
+ * arriving with a traceparent follow the sampling decision of the caller.
+ */
+function createExporter(name: string): SpanExporter | undefined {
+	switch (name) {
+		case "none":
+			return undefined;
+		case "console":
+			return new ConsoleSpanExporter();
+		case "otlp":
+			return new OTLPTraceExporter();
+		default:
+			new Logger().error(`Unknown OTEL_TRACES_EXPORTER "${name}", traces are not exported`);
+			return undefined;
+	}
+}
 
-const exporter: SpanExporter = new ConsoleSpanExporter();
-const processor: SpanProcessor = new BatchSpanProcessor(exporter);
+const exporter = createExporter((process.env.OTEL_TRACES_EXPORTER || "none").trim().toLowerCase());
+const processors: SpanProcessor[] = exporter ? [new BatchSpanProcessor(exporter)] : [];
 
-const provider = new WebTracerProvider({
+const ratio = Number(process.env.OTEL_TRACES_SAMPLER_ARG ?? 1);
+const sampler = new ParentBasedSampler({
+	root: new TraceIdRatioBasedSampler(Number.isFinite(ratio) ? Math.min(Math.max(ratio, 0), 1) : 1),
+});
+
+const provider = new NodeTracerProvider({
 	resource: resource,
-	spanProcessors: [processor],
+	sampler: sampler,
+	spanProcessors: processors,
 });
 
-provider.register();
+// Registers the async context manager as well, so spans started in a step see the step span
+provider.register({ propagator: new W3CTraceContextPropagator() });
+
+export default provider;
@@ -0,0 +1,77 @@
+import {
+	type INanoServiceResponse,
+	type JsonLikeObject,
+	NanoService,
+	NanoServiceResponse,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { signalOf } from "../Cancellation";
+import type PythonReply from "../types/PythonReply";
+import PythonRuntime from "./PythonRuntime";
+
+/**
+ * Step of type `runtime.python3`, run by the Python node of the same name through the
+ * runtime's worker pool. The node gets the inputs and a JSON copy of the context; the
+ * `ctx.vars` it sets are copied back. Python exceptions fail the step like any node error.
+ */
+export default class PythonNode extends NanoService {
+	// Python node name, set from the step when the workflow is resolved
+	node = "";
+
+	constructor(private runtime: PythonRuntime = PythonRuntime.shared()) {
+		super();
+	}
+
+	async handle(ctx: Context, inputs: JsonLikeObject): Promise<INanoServiceResponse> {
+		const response: NanoServiceResponse = new NanoServiceResponse();
+
+		try {
+			const reply = await this.runtime.call({ node: this.node, ctx: contextOf(ctx), inputs }, signalOf(ctx));
+			if (reply.error) throw toGlobalError(reply.error);
+
+			if (reply.vars) ctx.vars = reply.vars as Context["vars"];
+			this.contentType = reply.content_type || "application/json";
+			response.setSuccess(reply.data as JsonLikeObject);
+		} catch (error: unknown) {
+			let nodeError = error as GlobalError;
+			if (!(error instanceof GlobalError)) {
+				nodeError = new GlobalError((error as Error).message);
+				nodeError.setCode(500);
+				nodeError.setStack((error as Error).stack);
+			}
+			nodeError.setName(this.name);
+			response.setError(nodeError);
+		}
+
+		return response;
+	}
+}
+
+// The parts of the context a subprocess can use, the request object itself does not serialize
+function contextOf(ctx: Context): Record<string, unknown> {
+	const request = (ctx.request || {}) as unknown as Record<string, unknown>;
+
+	return {
+		id: ctx.id,
+		workflow_name: ctx.workflow_name,
+		workflow_path: ctx.workflow_path,
+		request: {
+			method: request.method,
+			path: request.path,
+			headers: request.headers,
+			params: request.params,
+			query: request.query,
+			body: request.body,
+		},
+		response: { data: ctx.response?.data, contentType: ctx.response?.contentType },
+		vars: ctx.vars || {},
+	};
+}
+
+function toGlobalError(error: NonNullable<PythonReply["error"]>): GlobalError {
+	const nodeError = new GlobalError(error.message);
+	nodeError.setCode(error.code);
+	nodeError.setJson({ error: error.message, exception: error.type });
+	nodeError.setStack(error.traceback);
+	return nodeError;
+}
@@ -0,0 +1,89 @@
+import path from "node:path";
+import type PythonReply from "../types/PythonReply";
+import type PythonRequest from "../types/PythonRequest";
+import PythonWorker from "./PythonWorker";
+
+/**
+ * Runs `runtime.python3` steps in a pool of Python subprocesses, reusing them between calls.
+ *
+ * - PYTHON_NODES_PATH: directory of the Python nodes, `python3/nodes` by default
+ * - PYTHON_BIN: interpreter, `python3` by default
+ * - PYTHON_WORKERS: subprocesses running at most, calls beyond wait for a free one
+ * - PYTHON_TIMEOUT_MS: per call timeout, the worker is killed and replaced when it expires
+ * - PYTHON_MAX_CALLS: calls served before a worker is replaced, to release leaked memory
+ *
+ * Workers start on the first call, so projects without Python steps never spawn one.
+ */
+export default class PythonRuntime {
+	private static instance: PythonRuntime | undefined;
+
+	private idle: PythonWorker[] = [];
+	private waiting: ((worker: PythonWorker) => void)[] = [];
+	private size = 0;
+
+	constructor(
+		private nodesPath = process.env.PYTHON_NODES_PATH || path.resolve(process.cwd(), "python3/nodes"),
+		private command = process.env.PYTHON_BIN || "python3",
+		private workers = Number(process.env.PYTHON_WORKERS) || 2,
+		private timeoutMs = Number(process.env.PYTHON_TIMEOUT_MS || 30000),
+		private maxCalls = Number(process.env.PYTHON_MAX_CALLS) || 1000,
+	) {}
+
+	// Pool shared by every workflow run, stopped when the process exits
+	static shared(): PythonRuntime {
+		if (PythonRuntime.instance === undefined) {
+			const runtime = new PythonRuntime();
+			process.once("exit", () => runtime.stop());
+			PythonRuntime.instance = runtime;
+		}
+
+		return PythonRuntime.instance;
+	}
+
+	async call(request: Omit<PythonRequest, "id">, signal?: AbortSignal): Promise<PythonReply> {
+		const worker = await this.acquire();
+		try {
+			return await worker.call(request, this.timeoutMs, signal);
+		} finally {
+			this.release(worker);
+		}
+	}
+
+	stop(): void {
+		for (const worker of this.idle) worker.stop();
+		this.idle = [];
+	}
+
+	private acquire(): Promise<PythonWorker> {
+		while (this.idle.length > 0) {
+			const worker = this.idle.pop() as PythonWorker;
+			if (worker.isAlive()) return Promise.resolve(worker);
+			this.size--;
+		}
+
+		if (this.size < this.workers) {
+			this.size++;
+			return Promise.resolve(new PythonWorker(this.command, this.nodesPath));
+		}
+
+		return new Promise((resolve) => this.waiting.push(resolve));
+	}
+
+	private release(worker: PythonWorker) {
+		const reusable = worker.isAlive() && worker.getCalls() < this.maxCalls;
+		if (!reusable) {
+			worker.stop();
+			this.size--;
+		}
+
+		const waiting = this.waiting.shift();
+		if (waiting === undefined) {
+			if (reusable) this.idle.push(worker);
+		} else if (reusable) {
+			waiting(worker);
+		} else {
+			this.size++;
+			waiting(new PythonWorker(this.command, this.nodesPath));
+		}
+	}
+}
@@ -0,0 +1,120 @@
+import { type ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import path from "node:path";
+import readline from "node:readline";
+import { onAbort } from "../Cancellation";
+import Logger from "../Logger";
+import { httpError } from "../Problem";
+import type PythonReply from "../types/PythonReply";
+import type PythonRequest from "../types/PythonRequest";
+
+const WORKER_SCRIPT = path.resolve(__dirname, "worker.py");
+
+type Pending = {
+	id: number;
+	resolve: (reply: PythonReply) => void;
+	reject: (error: Error) => void;
+};
+
+// One Python subprocess running worker.py, answering one call at a time
+export default class PythonWorker {
+	private process: ChildProcessWithoutNullStreams;
+	private pending: Pending | undefined;
+	private alive = true;
+	private nextId = 0;
+	private logger = new Logger();
+
+	constructor(command: string, nodesPath: string) {
+		this.process = spawn(command, ["-u", WORKER_SCRIPT, nodesPath], { stdio: "pipe" });
+
+		readline.createInterface({ input: this.process.stdout }).on("line", (line) => this.receive(line));
+		readline.createInterface({ input: this.process.stderr }).on("line", (line) => {
+			this.logger.log(`[python ${this.process.pid}] ${line}`);
+		});
+
+		this.process.on("error", (e: Error) => this.exited(`Unable to start ${command}: ${e.message}`));
+		this.process.on("exit", (code, signal) => this.exited(`Python worker exited with ${signal ?? code}`));
+	}
+
+	getCalls(): number {
+		return this.nextId;
+	}
+
+	isAlive(): boolean {
+		return this.alive;
+	}
+
+	// The worker is killed when the call times out or `signal` aborts, it may be stuck in the node
+	call(request: Omit<PythonRequest, "id">, timeoutMs: number, signal?: AbortSignal): Promise<PythonReply> {
+		if (!this.alive) return Promise.reject(new Error("Python worker is not running"));
+		if (this.pending) return Promise.reject(new Error("Python worker is busy"));
+		if (signal?.aborted) return Promise.reject(signal.reason);
+
+		const id = ++this.nextId;
+		return new Promise((resolve, reject) => {
+			const abandon = (error: Error) => {
+				settle();
+				this.stop();
+				reject(error);
+			};
+			const timer =
+				timeoutMs > 0
+					? setTimeout(
+							() => abandon(httpError(504, `Python node ${request.node} timed out after ${timeoutMs}ms`)),
+							timeoutMs,
+						)
+					: undefined;
+			const removeAbortListener = onAbort(signal, () => abandon(signal?.reason ?? new Error("Aborted")));
+
+			function settle() {
+				clearTimeout(timer);
+				removeAbortListener();
+			}
+			this.pending = {
+				id,
+				resolve: (reply) => {
+					settle();
+					this.pending = undefined;
+					resolve(reply);
+				},
+				reject: (error) => {
+					settle();
+					this.pending = undefined;
+					reject(error);
+				},
+			};
+
+			this.process.stdin.write(`${JSON.stringify({ ...request, id })}\n`, (e) => {
+				if (e) this.pending?.reject(e);
+			});
+		});
+	}
+
+	stop(): void {
+		this.pending = undefined;
+		if (!this.alive) return;
+
+		this.alive = false;
+		this.process.kill();
+	}
+
+	private receive(line: string) {
+		let reply: PythonReply;
+		try {
+			reply = JSON.parse(line) as PythonReply;
+		} catch {
+			this.logger.warn(`[python ${this.process.pid}] Unexpected output: ${line}`);
+			return;
+		}
+
+		if (this.pending === undefined || reply.id !== this.pending.id) {
+			this.logger.warn(`[python ${this.process.pid}] Reply to an unknown call: ${reply.id}`);
+			return;
+		}
+		this.pending.resolve(reply);
+	}
+
+	private exited(reason: string) {
+		this.alive = false;
+		this.pending?.reject(new Error(reason));
+	}
+}
@@ -0,0 +1,110 @@
+"""
+Worker process of the Python runtime bridge (src/runner/python/PythonRuntime.ts).
+
+Reads one JSON request per line on stdin, runs the node and writes one JSON reply per line
+on stdout. Whatever the nodes print goes to stderr, so it never mixes with the replies.
+
+A node is `<nodes path>/<name>/node.py` or `<nodes path>/<name>.py` defining
+`handle(ctx, inputs)`, or a `Node` class with that method. It may be async, and returns the
+response data. Raised exceptions become workflow errors, with the status from their `code`
+attribute when it is an HTTP error status.
+"""
+
+import asyncio
+import importlib.util
+import inspect
+import json
+import os
+import re
+import sys
+import traceback
+
+NODES_PATH = sys.argv[1] if len(sys.argv) > 1 else os.path.join(os.getcwd(), "python3", "nodes")
+NODE_NAME = re.compile(r"^[\w.-]+$")
+
+handlers = {}
+
+
+class NodeNotFound(LookupError):
+    code = 404
+
+
+def load(name):
+    if name in handlers:
+        return handlers[name]
+
+    if not NODE_NAME.match(name) or name.startswith("."):
+        raise NodeNotFound(f"Invalid Python node name: {name}")
+
+    candidates = [os.path.join(NODES_PATH, name, "node.py"), os.path.join(NODES_PATH, f"{name}.py")]
+    path = next((candidate for candidate in candidates if os.path.isfile(candidate)), None)
+    if path is None:
+        raise NodeNotFound(f"Python node {name} not found in {NODES_PATH}")
+
+    module_name = "nanoservice_nodes." + re.sub(r"\W", "_", name)
+    spec = importlib.util.spec_from_file_location(module_name, path)
+    module = importlib.util.module_from_spec(spec)
+    spec.loader.exec_module(module)
+
+    handler = module.Node() if inspect.isclass(getattr(module, "Node", None)) else module
+    if not callable(getattr(handler, "handle", None)):
+        raise TypeError(f"Python node {name} does not define handle(ctx, inputs)")
+
+    handlers[name] = handler
+    return handler
+
+
+def run(request):
+    handler = load(request["node"])
+    ctx = request.get("ctx") or {}
+
+    data = handler.handle(ctx, request.get("inputs") or {})
+    if inspect.iscoroutine(data):
+        data = asyncio.run(data)
+
+    return {
+        "data": data,
+        "content_type": getattr(handler, "content_type", None) or "application/json",
+        "vars": ctx.get("vars"),
+    }
+
+
+def failure(error):
+    code = getattr(error, "code", None)
+    return {
+        "error": {
+            "message": str(error) or type(error).__name__,
+            "type": type(error).__name__,
+            "code": code if isinstance(code, int) and 400 <= code <= 599 else 500,
+            "traceback": traceback.format_exc(),
+        }
+    }
+
+
+def main():
+    replies = sys.stdout
+    sys.stdout = sys.stderr
+
+    for line in sys.stdin:
+        if not line.strip():
+            continue
+
+        request = {}
+        try:
+            request = json.loads(line)
+            reply = run(request)
+        except Exception as error:
+            reply = failure(error)
+
+        reply["id"] = request.get("id") if isinstance(request, dict) else None
+        try:
+            encoded = json.dumps(reply, default=str)
+        except ValueError as error:
+            encoded = json.dumps({"id": reply["id"], **failure(error)})
+
+        replies.write(encoded + "\n")
+        replies.flush()
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,20 @@
+type AuthConfig = {
+	type: string;
+	// api_key: header carrying the key (Authorization: Bearer is always accepted)
+	header?: string;
+	// api_key: environment variable holding a comma separated list of keys
+	keys_env?: string;
+	// jwt: accepted algorithms, HS256 and/or RS256
+	algorithms?: string[];
+	// jwt: environment variable holding the HS256 shared secret
+	secret_env?: string;
+	// jwt: inline HS256 secret, only used for the runner's legacy jwt_secret option
+	secret?: string;
+	// jwt: PEM encoded RS256 public key, from a file or an environment variable
+	public_key_file?: string;
+	public_key_env?: string;
+	issuer?: string;
+	audience?: string;
+};
+
+export default AuthConfig;
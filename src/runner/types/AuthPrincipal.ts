@@ -0,0 +1,7 @@
+type AuthPrincipal = {
+	type: string;
+	subject: string;
+	claims?: Record<string, unknown>;
+};
+
+export default AuthPrincipal;
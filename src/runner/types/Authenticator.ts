@@ -0,0 +1,9 @@
+import type { Request } from "express";
+import type AuthConfig from "./AuthConfig";
+import type AuthPrincipal from "./AuthPrincipal";
+
+type Authenticator = {
+	authenticate(req: Request, config: AuthConfig): Promise<AuthPrincipal>;
+};
+
+export default Authenticator;
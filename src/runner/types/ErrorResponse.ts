@@ -1,3 +1,17 @@
+/**
+ * RFC 7807 problem details, sent as application/problem+json for every error.
+ */
 type ErrorResponse = {
-	error: string;
+	type: string;
+	title: string;
+	status: number;
+	detail?: string;
+	instance?: string;
+	request_id: string;
+	workflow?: string;
+	step?: string;
+	node?: string;
+	[extension: string]: unknown;
 };
+
+export default ErrorResponse;
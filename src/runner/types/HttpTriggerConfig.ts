@@ -0,0 +1,18 @@
+import type { TriggerHttp } from "@nanoservice-ts/runner";
+import type { Schema } from "jsonschema";
+import type AuthConfig from "./AuthConfig";
+import type ResponseCacheConfig from "./ResponseCacheConfig";
+import type TrafficSplitConfig from "./TrafficSplitConfig";
+
+type HttpTriggerConfig = TriggerHttp & {
+	schema?: Schema;
+	query_schema?: Schema;
+	params_schema?: Schema;
+	auth?: AuthConfig;
+	// Milliseconds before the run is aborted with a 504
+	timeout?: number;
+	cache?: ResponseCacheConfig;
+	split?: TrafficSplitConfig;
+};
+
+export default HttpTriggerConfig;
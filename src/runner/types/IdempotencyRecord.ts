@@ -0,0 +1,21 @@
+type StoredResponse = {
+	status: number;
+	headers: Record<string, string | string[]>;
+	body: string;
+	encoding: "utf8" | "base64";
+};
+
+type IdempotencyRecord = {
+	// Workflow name and Idempotency-Key
+	key: string;
+	// Hash of the method, path and body the key was first used with
+	fingerprint: string;
+	status: "running" | "completed";
+	created_at: string;
+	// Epoch milliseconds after which the store may drop the record
+	expires_at: number;
+	response?: StoredResponse;
+};
+
+export default IdempotencyRecord;
+export type { StoredResponse };
@@ -0,0 +1,11 @@
+import type IdempotencyRecord from "./IdempotencyRecord";
+import type { StoredResponse } from "./IdempotencyRecord";
+
+type IdempotencyStore = {
+	// Saves the record unless the key is taken, in which case the existing record is returned
+	reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined>;
+	complete(key: string, response: StoredResponse): Promise<void>;
+	release(key: string): Promise<void>;
+};
+
+export default IdempotencyStore;
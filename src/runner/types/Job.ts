@@ -0,0 +1,36 @@
+import type ErrorResponse from "./ErrorResponse";
+
+type JobStep = {
+	name: string;
+	node: string;
+	status: "running" | "succeeded" | "failed";
+	started_at: string;
+	duration_ms?: number;
+};
+
+type Job = {
+	// Generated by the server, the client's requestId is kept as request_id
+	id: string;
+	request_id: string;
+	workflow: string;
+	// Caller that started the job (type:subject), the only one allowed to read it
+	owner?: string;
+	status: "running" | "succeeded" | "failed";
+	created_at: string;
+	updated_at: string;
+	completed_at?: string;
+	// Epoch milliseconds after which the store may drop the job
+	expires_at: number;
+	steps: JobStep[];
+	result?: {
+		contentType: string;
+		data: unknown;
+		// Binary results (xlsx) are kept in base64
+		encoding?: "base64";
+		disposition?: string;
+	};
+	error?: ErrorResponse;
+};
+
+export default Job;
+export type { JobStep };
@@ -0,0 +1,8 @@
+import type Job from "./Job";
+
+type JobStore = {
+	get(id: string): Promise<Job | undefined>;
+	set(job: Job): Promise<void>;
+};
+
+export default JobStore;
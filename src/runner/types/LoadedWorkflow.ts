@@ -0,0 +1,12 @@
+import type WorkflowDefinition from "./WorkflowDefinition";
+import type WorkflowFormat from "./WorkflowFormat";
+
+type LoadedWorkflow = {
+	// Name used in the request path, taken from the file name
+	name: string;
+	file: string;
+	format: WorkflowFormat;
+	definition: WorkflowDefinition;
+};
+
+export default LoadedWorkflow;
@@ -0,0 +1,13 @@
+type PluginStatus = {
+	// Node name used by workflow steps
+	name: string;
+	// npm package or path from nodes.config.json
+	source: string;
+	// pending until a workflow step uses the node for the first time
+	status: "pending" | "loaded" | "failed";
+	error?: string;
+	loaded_at?: string;
+	failed_at?: string;
+};
+
+export default PluginStatus;
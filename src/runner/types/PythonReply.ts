@@ -0,0 +1,16 @@
+type PythonReply = {
+	id: number | null;
+	data?: unknown;
+	content_type?: string;
+	// ctx.vars after the node ran, so Python nodes can set workflow variables
+	vars?: Record<string, unknown>;
+	error?: {
+		message: string;
+		// Exception class, e.g. ValueError
+		type: string;
+		code: number;
+		traceback?: string;
+	};
+};
+
+export default PythonReply;
@@ -0,0 +1,9 @@
+type PythonRequest = {
+	id: number;
+	// Node directory or file name under PYTHON_NODES_PATH
+	node: string;
+	ctx: Record<string, unknown>;
+	inputs: unknown;
+};
+
+export default PythonRequest;
@@ -0,0 +1,8 @@
+type RequestViolation = {
+	in: "body" | "query" | "params";
+	path: string;
+	keyword: string;
+	message: string;
+};
+
+export default RequestViolation;
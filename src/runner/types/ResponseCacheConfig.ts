@@ -0,0 +1,10 @@
+type ResponseCacheConfig = {
+	// Seconds a response is served from the cache
+	ttl: number;
+	// Query parameters that select a different entry, all of them when true (the default)
+	vary_query?: string[] | boolean;
+	// Request headers that select a different entry
+	vary_headers?: string[];
+};
+
+export default ResponseCacheConfig;
@@ -0,0 +1,3 @@
+type ResponseFormat = "csv" | "ndjson" | "xlsx";
+
+export default ResponseFormat;
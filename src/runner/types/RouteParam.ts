@@ -0,0 +1,12 @@
+type RouteParam = {
+	name: string;
+	// int, number, bool, uuid or string, for params declared as :name<type>
+	type?: string;
+	// Regular expression of params declared as :name(pattern)
+	pattern?: string;
+	optional: boolean;
+	// Declared as * or *name, matches the rest of the path
+	wildcard?: boolean;
+};
+
+export default RouteParam;
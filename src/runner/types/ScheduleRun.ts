@@ -0,0 +1,13 @@
+type ScheduleRun = {
+	id: string;
+	workflow: string;
+	cron: string;
+	status: "running" | "succeeded" | "failed" | "skipped";
+	scheduled_at: string;
+	started_at?: string;
+	finished_at?: string;
+	duration_ms?: number;
+	error?: string;
+};
+
+export default ScheduleRun;
@@ -0,0 +1,15 @@
+type ScheduleTriggerConfig = {
+	// One or more cron expressions, with an optional seconds field
+	cron: string | string[];
+	// IANA time zone the expressions are evaluated in, UTC by default
+	timezone?: string;
+	enabled?: boolean;
+	// Milliseconds before the run is aborted, WORKFLOW_TIMEOUT_MS by default
+	timeout?: number;
+	// Synthetic request passed to the workflow on every run
+	body?: unknown;
+	query?: Record<string, string>;
+	headers?: Record<string, string>;
+};
+
+export default ScheduleTriggerConfig;
@@ -0,0 +1,15 @@
+import type { Context } from "@nanoservice-ts/shared";
+
+type StepEvent = {
+	type: "start" | "finish" | "error";
+	step: string;
+	node: string;
+	// Order in which the step started within the run
+	index: number;
+	ctx: Context;
+	duration?: number;
+	output?: unknown;
+	error?: unknown;
+};
+
+export default StepEvent;
@@ -0,0 +1,10 @@
+type TrafficSplitConfig = {
+	// Workflows receiving a share of the traffic, weights are percentages
+	variants: { workflow: string; weight: number; label?: string }[];
+	// Label of the requests that stay on this workflow, control by default
+	label?: string;
+	// Request header keeping a client on the same variant, x-client-id by default
+	sticky_header?: string;
+};
+
+export default TrafficSplitConfig;
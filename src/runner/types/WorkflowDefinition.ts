@@ -0,0 +1,26 @@
+type WorkflowStep = {
+	name: string;
+	node: string;
+	type: string;
+	active?: boolean;
+	stop?: boolean;
+	inputs?: Record<string, unknown>;
+	// Milliseconds before the step is aborted with a 504
+	timeout?: number;
+};
+
+type WorkflowDefinition = {
+	name: string;
+	version: string;
+	description?: string;
+	trigger: {
+		[key: string]: Record<string, unknown>;
+	};
+	steps: WorkflowStep[];
+	nodes?: {
+		[key: string]: Record<string, unknown>;
+	};
+};
+
+export default WorkflowDefinition;
+export type { WorkflowStep };
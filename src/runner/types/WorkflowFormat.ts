@@ -0,0 +1,3 @@
+type WorkflowFormat = "json" | "yaml" | "toml" | "xml";
+
+export default WorkflowFormat;
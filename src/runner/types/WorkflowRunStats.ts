@@ -0,0 +1,11 @@
+type WorkflowRunStats = {
+	requests: number;
+	errors: number;
+	last_status?: number;
+	last_run_at?: string;
+	// Milliseconds, over every finished request since start
+	avg_duration_ms?: number;
+	max_duration_ms?: number;
+};
+
+export default WorkflowRunStats;
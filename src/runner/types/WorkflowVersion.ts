@@ -0,0 +1,7 @@
+type WorkflowVersion = {
+	// Key of the workflow in the node map, e.g. company-analytics@2
+	key: string;
+	version: string;
+};
+
+export default WorkflowVersion;
@@ -1,4 +1,5 @@
 import { type Step, Workflow } from "@nanoservice-ts/helper";
+import type { TriggerOpts } from "@nanoservice-ts/helper/dist/types/TriggerOpts";
 
 const step1Inputs = {
 	url: "https://countriesnow.space/api/v0.1/countries/capital",
@@ -18,7 +19,8 @@ const step: Step = Workflow({
 		method: "GET",
 		path: "/",
 		accept: "application/json",
-	})
+		cache: { ttl: 300 },
+	} as TriggerOpts)
 	.addStep({
 		name: "get-countries-api",
 		node: "@nanoservice-ts/api-call",